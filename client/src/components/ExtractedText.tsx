@@ -1,7 +1,7 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Copy, Check, Info } from "lucide-react";
-import { useState } from "react";
+import { AlertTriangle, Copy, Check, Info } from "lucide-react";
+import { useEffect, useState } from "react";
 import {
   Tooltip,
   TooltipContent,
@@ -14,24 +14,154 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
-
-interface Patterns {
-  dates?: string[];
-  amounts?: string[];
-  emails?: string[];
-  phoneNumbers?: string[];
-  addresses?: string[];
-  identifiers?: string[];
-}
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ImageOverlay } from "@/components/ImageOverlay";
+import { TableEditor } from "@/components/TableEditor";
+import { useConfidenceThreshold } from "@/hooks/use-confidence-threshold";
+import { formatNormalized } from "@/lib/patterns";
+import { cn } from "@/lib/utils";
+import type {
+  BoundingBox,
+  Confidence,
+  ExtractedTable,
+  FieldValue,
+  Money,
+  PageResult,
+  PatternMatch,
+  PatternValue,
+  Patterns,
+  TableValue,
+  TextLine,
+  TilingInfo,
+} from "@/lib/types";
 
 interface ExtractedTextProps {
   text: string;
   patterns?: Patterns;
+  fields?: Record<string, FieldValue>;
+  tables?: ExtractedTable[];
+  pages?: PageResult[];
+  tiling?: TilingInfo;
+  lines?: TextLine[];
+  matches?: PatternMatch[];
+  confidence?: Confidence;
+  // Values of custom patterns, by pattern name
+  custom?: Record<string, PatternValue[]>;
+  // Uploaded image, shown with the text positions drawn over it
+  imageUrl?: string;
+  // Name of the uploaded file, used to name exported tables
+  filename?: string;
   isLoading: boolean;
 }
 
-export function ExtractedText({ text, patterns, isLoading }: ExtractedTextProps) {
+function isTable(value: FieldValue): value is TableValue {
+  return typeof value === "object" && value !== null && "rows" in value;
+}
+
+const thresholdOptions = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+const patternLabels: Record<keyof Patterns, string> = {
+  dates: "Dates",
+  amounts: "Monetary Amounts",
+  emails: "Email Addresses",
+  phoneNumbers: "Phone Numbers",
+  addresses: "Physical Addresses",
+  identifiers: "Reference Numbers",
+  ibans: "IBANs",
+  vatIds: "VAT Numbers",
+};
+
+function formatFieldValue(value: FieldValue): string {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") {
+    const money = value as Money;
+    return `${money.amount.toFixed(2)} ${money.currency}`;
+  }
+  return String(value);
+}
+
+const squash = (line: string) => line.replace(/\s+/g, " ").trim();
+
+// Lines of the extracted text, each with the box of the located line it
+// matches, if any. Located lines are matched in order, so the text is shown
+// as extracted even where OCR located it differently.
+function locateLines(text: string, lines: TextLine[]): { text: string; box?: BoundingBox }[] {
+  let next = 0;
+  return text.split("\n").map((line) => {
+    const found = lines.findIndex((located, index) => index >= next && squash(located.text) === squash(line));
+    if (!squash(line) || found === -1) return { text: line };
+    next = found + 1;
+    return { text: line, box: lines[found].box };
+  });
+}
+
+export function ExtractedText(props: ExtractedTextProps) {
+  const { pages, tiling, imageUrl, filename, isLoading } = props;
   const [copied, setCopied] = useState(false);
+  // Page shown for multi-page documents, or null for the whole document
+  const [selectedPage, setSelectedPage] = useState<number | null>(null);
+
+  const [hovered, setHovered] = useState<BoundingBox[]>([]);
+  // Pattern value clicked to outline it on the image
+  const [selectedMatch, setSelectedMatch] = useState<{ pattern: string; value: string } | null>(null);
+  const [threshold, setThreshold] = useConfidenceThreshold();
+
+  useEffect(() => setSelectedPage(null), [pages]);
+  useEffect(() => {
+    setHovered([]);
+    setSelectedMatch(null);
+  }, [props.lines]);
+
+  const page = pages?.find((candidate) => candidate.page === selectedPage);
+  const { text, patterns, fields, tables, lines, matches, confidence, custom } = page ?? props;
+  const tableName = (index: number) =>
+    `${(filename ?? "extraction").replace(/\.[^.]+$/, "")}${page ? `-page-${page.page}` : ""}-table-${index + 1}`;
+  const showOverlay = !!imageUrl && !page && !!lines?.length && !isLoading;
+
+  const matchBoxes = (key: string, value: string) =>
+    (matches ?? [])
+      .filter((match) => match.pattern === key && match.value === value)
+      .map((match) => match.box);
+  const selectedBoxes = selectedMatch ? matchBoxes(selectedMatch.pattern, selectedMatch.value) : [];
+
+  // Built-in patterns, then the workspace's custom patterns under their own names
+  const sections = [
+    ...(Object.entries(patterns ?? {}) as [keyof Patterns, PatternValue[] | undefined][]).map(([key, values]) => ({
+      key,
+      label: patternLabels[key],
+      values: values ?? [],
+      scores: confidence?.patterns[key],
+    })),
+    ...Object.entries(custom ?? {}).map(([name, values]) => ({
+      key: `custom:${name}`,
+      label: name,
+      values,
+      scores: confidence?.custom?.[name],
+    })),
+  ].filter((section) => section.values.length > 0);
+
+  const isLow = (score?: number) => score !== undefined && score < threshold;
+  const flaggedCount = confidence
+    ? sections.flatMap((section) => Object.values(section.scores ?? {})).filter(isLow).length +
+      Object.values(confidence.fields ?? {}).filter(isLow).length
+    : 0;
 
   const copyToClipboard = async () => {
     await navigator.clipboard.writeText(text);
@@ -39,17 +169,6 @@ export function ExtractedText({ text, patterns, isLoading }: ExtractedTextProps)
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const hasPatterns = patterns && Object.values(patterns).some(arr => arr && arr.length > 0);
-
-  const patternLabels = {
-    dates: "Dates",
-    amounts: "Monetary Amounts",
-    emails: "Email Addresses",
-    phoneNumbers: "Phone Numbers",
-    addresses: "Physical Addresses",
-    identifiers: "Reference Numbers",
-  };
-
   return (
     <Card className="p-6">
       <div className="flex justify-between items-center mb-4">
@@ -82,23 +201,161 @@ export function ExtractedText({ text, patterns, isLoading }: ExtractedTextProps)
       </div>
 
       <div className="space-y-4">
-        <div className="bg-secondary p-4 rounded-lg min-h-[200px] max-h-[300px] relative overflow-auto">
-          {isLoading ? (
-            <div className="animate-pulse space-y-2">
-              <div className="h-4 bg-muted rounded w-3/4" />
-              <div className="h-4 bg-muted rounded w-1/2" />
-              <div className="h-4 bg-muted rounded w-2/3" />
-            </div>
-          ) : text ? (
-            <pre className="whitespace-pre-wrap font-mono text-sm">{text}</pre>
-          ) : (
-            <p className="text-muted-foreground text-center">
-              Upload an image to extract text
+        {pages && pages.length > 1 && !isLoading && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={selectedPage === null ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedPage(null)}
+            >
+              All pages
+            </Button>
+            {pages.map((candidate) => (
+              <Button
+                key={candidate.page}
+                variant={selectedPage === candidate.page ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedPage(candidate.page)}
+              >
+                Page {candidate.page}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {tiling && !isLoading && (
+          <p className="text-xs text-muted-foreground">
+            {tiling.reason === "truncated"
+              ? "The output was cut off, so the image was re-read"
+              : "The image was read"}{" "}
+            in {tiling.tiles.length} overlapping strips.
+            {tiling.seams.some((matched) => matched === 0) &&
+              ` ${tiling.seams.filter((matched) => matched === 0).length} of ${tiling.seams.length} joins could not be matched and may repeat or miss a line.`}
+          </p>
+        )}
+
+        {confidence && !isLoading && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p
+              className={`flex items-center gap-1 text-sm ${
+                flaggedCount > 0 ? "text-amber-600" : "text-muted-foreground"
+              }`}
+            >
+              {flaggedCount > 0 && <AlertTriangle className="h-4 w-4" />}
+              {flaggedCount > 0
+                ? `${flaggedCount} value${flaggedCount === 1 ? "" : "s"} below ${formatScore(threshold)} confidence should be reviewed`
+                : `All values are at least ${formatScore(threshold)} confident`}
             </p>
-          )}
-        </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">Flag below</span>
+              <Select value={String(threshold)} onValueChange={(value) => setThreshold(Number(value))}>
+                <SelectTrigger className="h-8 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {thresholdOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {formatScore(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
 
-        {hasPatterns && !isLoading && (
+        {showOverlay ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <ImageOverlay
+              src={imageUrl}
+              alt="Uploaded image"
+              hovered={hovered}
+              selected={selectedBoxes}
+            />
+            <div className="bg-secondary p-4 rounded-lg max-h-[500px] overflow-auto font-mono text-sm">
+              {locateLines(text, lines!).map((line, index) => (
+                <div
+                  key={index}
+                  className={cn("whitespace-pre-wrap rounded-sm px-1 min-h-[1.25rem]", line.box && "hover:bg-yellow-300/40")}
+                  onMouseEnter={() => line.box && setHovered([line.box])}
+                  onMouseLeave={() => setHovered([])}
+                >
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-secondary p-4 rounded-lg min-h-[200px] max-h-[300px] relative overflow-auto">
+            {isLoading ? (
+              <div className="animate-pulse space-y-2">
+                <div className="h-4 bg-muted rounded w-3/4" />
+                <div className="h-4 bg-muted rounded w-1/2" />
+                <div className="h-4 bg-muted rounded w-2/3" />
+              </div>
+            ) : text ? (
+              <pre className="whitespace-pre-wrap font-mono text-sm">{text}</pre>
+            ) : (
+              <p className="text-muted-foreground text-center">
+                Upload an image to extract text
+              </p>
+            )}
+          </div>
+        )}
+
+        {fields && Object.keys(fields).length > 0 && !isLoading && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Template Fields</h4>
+            {Object.entries(fields).map(([name, value]) => (
+              <div key={name} className="space-y-1">
+                <p className="flex items-center gap-1 text-xs font-mono text-muted-foreground">
+                  {name}
+                  {confidence?.fields?.[name] !== undefined && (
+                    <span className={isLow(confidence.fields[name]) ? "text-amber-600" : ""}>
+                      · {formatScore(confidence.fields[name])}
+                    </span>
+                  )}
+                  {isLow(confidence?.fields?.[name]) && <AlertTriangle className="h-3 w-3 text-amber-600" />}
+                </p>
+                {isTable(value) ? (
+                  <div className="rounded-lg border overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {value.headers.map((header, index) => (
+                            <TableHead key={index}>{header}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {value.rows.map((row, rowIndex) => (
+                          <TableRow key={rowIndex}>
+                            {row.map((cell, cellIndex) => (
+                              <TableCell key={cellIndex}>{cell}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <p className="text-sm">{formatFieldValue(value)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tables && tables.length > 0 && !isLoading && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Tables</h4>
+            {tables.map((table, index) => (
+              <TableEditor key={index} table={table} name={tableName(index)} />
+            ))}
+          </div>
+        )}
+
+        {sections.length > 0 && !isLoading && (
           <Accordion type="single" collapsible className="w-full">
             <AccordionItem value="patterns">
               <AccordionTrigger>
@@ -106,22 +363,57 @@ export function ExtractedText({ text, patterns, isLoading }: ExtractedTextProps)
               </AccordionTrigger>
               <AccordionContent>
                 <div className="space-y-4 p-2">
-                  {Object.entries(patterns!).map(([key, values]) => {
-                    if (!values || values.length === 0) return null;
+                  {sections.map(({ key, label, values, scores }) => {
                     return (
                       <div key={key} className="space-y-2">
                         <h4 className="text-sm font-medium text-muted-foreground">
-                          {patternLabels[key as keyof Patterns]}
+                          {label}
                         </h4>
                         <div className="flex flex-wrap gap-2">
-                          {values.map((value, index) => (
-                            <span
-                              key={index}
-                              className="inline-block px-2 py-1 text-xs rounded-md bg-secondary"
-                            >
-                              {value}
-                            </span>
-                          ))}
+                          {values.map((value: PatternValue, index: number) => {
+                            const { raw } = value;
+                            const boxes = showOverlay ? matchBoxes(key, raw) : [];
+                            const score = scores?.[raw];
+                            const flag = isLow(score)
+                              ? "border border-amber-500 text-amber-700"
+                              : "";
+                            // Hovering shows the normalized value, e.g. an ISO date
+                            const title = [formatNormalized(value), score !== undefined && `Confidence ${formatScore(score)}`]
+                              .filter(Boolean)
+                              .join(" · ") || undefined;
+                            if (boxes.length === 0) {
+                              return (
+                                <span
+                                  key={index}
+                                  title={title}
+                                  className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-secondary ${flag}`}
+                                >
+                                  {isLow(score) && <AlertTriangle className="h-3 w-3" />}
+                                  {raw}
+                                </span>
+                              );
+                            }
+                            const isSelected =
+                              selectedMatch?.pattern === key && selectedMatch.value === raw;
+                            return (
+                              <button
+                                key={index}
+                                type="button"
+                                title={title}
+                                className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-secondary hover:bg-yellow-300/40 ${flag} ${
+                                  isSelected ? "ring-2 ring-primary" : ""
+                                }`}
+                                onMouseEnter={() => setHovered(boxes)}
+                                onMouseLeave={() => setHovered([])}
+                                onClick={() =>
+                                  setSelectedMatch(isSelected ? null : { pattern: key, value: raw })
+                                }
+                              >
+                                {isLow(score) && <AlertTriangle className="h-3 w-3" />}
+                                {raw}
+                              </button>
+                            );
+                          })}
                         </div>
                       </div>
                     );
@@ -0,0 +1,41 @@
+import type { BoundingBox } from "@/lib/types";
+
+interface ImageOverlayProps {
+  src: string;
+  alt: string;
+  // Boxes under the pointer, shaded
+  hovered?: BoundingBox[];
+  // Boxes picked by clicking, outlined
+  selected?: BoundingBox[];
+}
+
+const toStyle = (box: BoundingBox) => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+// An image with boxes drawn over it. Boxes are fractions of the image size,
+// so they line up at any display size.
+export function ImageOverlay({ src, alt, hovered = [], selected = [] }: ImageOverlayProps) {
+  return (
+    <div className="relative">
+      <img src={src} alt={alt} className="w-full rounded-lg border" />
+      {hovered.map((box, index) => (
+        <div
+          key={`hovered-${index}`}
+          className="absolute bg-yellow-300/40 rounded-sm pointer-events-none"
+          style={toStyle(box)}
+        />
+      ))}
+      {selected.map((box, index) => (
+        <div
+          key={`selected-${index}`}
+          className="absolute ring-2 ring-primary rounded-sm pointer-events-none"
+          style={toStyle(box)}
+        />
+      ))}
+    </div>
+  );
+}
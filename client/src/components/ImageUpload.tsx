@@ -1,6 +1,17 @@
 import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
-import { Upload, Image as ImageIcon, Info } from "lucide-react";
+import useSWR from "swr";
+import {
+  Upload,
+  Image as ImageIcon,
+  FileText,
+  Info,
+  Settings2,
+  Regex,
+  Loader2,
+  CheckCircle2,
+  AlertCircle,
+} from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -11,42 +22,103 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateManager } from "@/components/TemplateManager";
+import { PatternManager } from "@/components/PatternManager";
+import { useTemplates } from "@/hooks/use-templates";
+import { displayableTypes } from "@/hooks/use-object-url";
+import type { FileStatus, UploadOptions } from "@/lib/types";
 
 interface ImageUploadProps {
-  onImageUpload: (files: File[], requirements?: string) => Promise<void>;
+  onImageUpload: (files: File[], options: UploadOptions) => Promise<void>;
   isLoading: boolean;
   progress?: number;
+  onCancel?: () => void;
+  statuses?: FileStatus[];
+}
+
+interface Preview {
+  // Data URL, for formats the browser can display
+  url?: string;
+  isPdf: boolean;
 }
 
-export function ImageUpload({ onImageUpload, isLoading, progress }: ImageUploadProps) {
-  const [previews, setPreviews] = useState<string[]>([]);
+const providerLabels: Record<string, string> = {
+  openai: "OpenAI Vision",
+  tesseract: "Local OCR (stays on this server)",
+  fixture: "Sample data",
+};
+
+export function ImageUpload({
+  onImageUpload,
+  isLoading,
+  progress,
+  onCancel,
+  statuses,
+}: ImageUploadProps) {
+  const [previews, setPreviews] = useState<Preview[]>([]);
   const [requirements, setRequirements] = useState("");
+  const [templateId, setTemplateId] = useState("none");
+  const [provider, setProvider] = useState("default");
+  const { data: providerData } = useSWR<{ providers: string[]; default: string }>(
+    "/api/providers"
+  );
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showPatterns, setShowPatterns] = useState(false);
+  const { templates } = useTemplates();
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
       if (acceptedFiles.length > 0) {
         const newPreviews = await Promise.all(
           acceptedFiles.map((file) => {
-            return new Promise<string>((resolve) => {
+            const isPdf = /\.pdf$/i.test(file.name);
+            // Browsers cannot render PDFs, HEIC or TIFF in an <img>; those show an icon
+            if (!displayableTypes.includes(file.type)) {
+              return Promise.resolve<Preview>({ isPdf });
+            }
+            return new Promise<Preview>((resolve) => {
               const reader = new FileReader();
               reader.onloadend = () => {
-                resolve(reader.result as string);
+                resolve({ url: reader.result as string, isPdf });
               };
               reader.readAsDataURL(file);
             });
           })
         );
         setPreviews(newPreviews);
-        await onImageUpload(acceptedFiles, requirements);
+        await onImageUpload(acceptedFiles, {
+          requirements,
+          templateId: templates.find((template) => template.id === templateId)?.id,
+          provider: provider === "default" ? undefined : provider,
+        });
       }
     },
-    [onImageUpload, requirements]
+    [onImageUpload, requirements, templateId, templates, provider]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      "image/*": [".png", ".jpg", ".jpeg", ".gif"],
+      "image/*": [
+        ".png",
+        ".jpg",
+        ".jpeg",
+        ".gif",
+        ".webp",
+        ".heic",
+        ".heif",
+        ".tif",
+        ".tiff",
+        ".bmp",
+      ],
+      "application/pdf": [".pdf"],
     },
     multiple: true,
     disabled: isLoading,
@@ -63,13 +135,56 @@ export function ImageUpload({ onImageUpload, isLoading, progress }: ImageUploadP
                 <Info className="h-4 w-4 text-muted-foreground cursor-help" />
               </TooltipTrigger>
               <TooltipContent>
-                <p>Upload multiple images and specify what information you want to extract</p>
+                <p>Upload multiple images or PDFs and specify what information you want to extract</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
         </h3>
       </div>
 
+      <div className="mb-4 flex gap-2">
+        <Select value={templateId} onValueChange={setTemplateId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No template</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => setShowTemplates(true)}>
+          <Settings2 className="h-4 w-4 mr-2" />
+          Templates
+        </Button>
+        <Button variant="outline" onClick={() => setShowPatterns(true)}>
+          <Regex className="h-4 w-4 mr-2" />
+          Patterns
+        </Button>
+      </div>
+
+      <div className="mb-4">
+        <Select value={provider} onValueChange={setProvider}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose an extraction engine" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">
+              Default engine
+              {providerData && ` (${providerLabels[providerData.default] ?? providerData.default})`}
+            </SelectItem>
+            {providerData?.providers.map((name) => (
+              <SelectItem key={name} value={name}>
+                {providerLabels[name] ?? name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="mb-4">
         <Textarea
           placeholder="Specify what information you want to extract from the images (e.g., 'Extract all dates and amounts from these receipts')"
@@ -90,12 +205,38 @@ export function ImageUpload({ onImageUpload, isLoading, progress }: ImageUploadP
           <div className="relative">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               {previews.map((preview, index) => (
-                <img
-                  key={index}
-                  src={preview}
-                  alt={`Preview ${index + 1}`}
-                  className="w-full h-32 object-cover rounded-lg"
-                />
+                <div key={index} className="relative">
+                  {preview.url ? (
+                    <img
+                      src={preview.url}
+                      alt={`Preview ${index + 1}`}
+                      className="w-full h-32 object-cover rounded-lg"
+                    />
+                  ) : (
+                    <div className="w-full h-32 rounded-lg bg-secondary flex items-center justify-center">
+                      {preview.isPdf ? (
+                        <FileText className="h-10 w-10 text-muted-foreground" />
+                      ) : (
+                        <ImageIcon className="h-10 w-10 text-muted-foreground" />
+                      )}
+                    </div>
+                  )}
+                  {statuses?.[index] && (
+                    <div className="absolute top-2 right-2 rounded-full bg-background/90 p-1">
+                      {statuses[index] === "pending" && (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      )}
+                      {statuses[index] === "completed" && (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      )}
+                      {(statuses[index] === "failed" ||
+                        statuses[index] === "skipped" ||
+                        statuses[index] === "cancelled") && (
+                        <AlertCircle className="h-4 w-4 text-destructive" />
+                      )}
+                    </div>
+                  )}
+                </div>
               ))}
             </div>
             <Button
@@ -128,12 +269,31 @@ export function ImageUpload({ onImageUpload, isLoading, progress }: ImageUploadP
                 Drop your images here or click to upload
               </p>
               <p className="text-sm text-muted-foreground">
-                Supports multiple files: PNG, JPG, JPEG, GIF
+                Supports multiple files: PNG, JPG, GIF, WebP, HEIC, TIFF, BMP, PDF
               </p>
             </div>
           </div>
         )}
       </div>
+
+      {isLoading && previews.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <Progress value={progress} className="w-full" />
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Processing images... {progress}%
+            </p>
+            {onCancel && (
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <TemplateManager open={showTemplates} onOpenChange={setShowTemplates} />
+      <PatternManager open={showPatterns} onOpenChange={setShowPatterns} />
     </Card>
   );
 }
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomPatterns } from "@/hooks/use-custom-patterns";
+import type {
+  CustomNormalizer,
+  CustomPattern,
+  CustomValidator,
+} from "@/lib/types";
+
+const validatorLabels: Record<CustomValidator, string> = {
+  luhn: "Luhn check digit",
+  mod97: "MOD 97-10 check digits",
+  iban: "Valid IBAN",
+  vat_id: "Valid VAT number",
+};
+
+const normalizerLabels: Record<CustomNormalizer, string> = {
+  uppercase: "Upper case",
+  lowercase: "Lower case",
+  compact: "Without spaces, dots and dashes",
+  digits: "Digits only",
+  date: "ISO date",
+  amount: "Amount and currency",
+  format: "Rewrite with replacement",
+};
+
+interface PatternManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PatternManager({ open, onOpenChange }: PatternManagerProps) {
+  const { patterns, createPattern, updatePattern, deletePattern } =
+    useCustomPatterns();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [regex, setRegex] = useState("");
+  const [ignoreCase, setIgnoreCase] = useState(false);
+  const [validator, setValidator] = useState("none");
+  const [normalizer, setNormalizer] = useState("none");
+  const [replacement, setReplacement] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setRegex("");
+    setIgnoreCase(false);
+    setValidator("none");
+    setNormalizer("none");
+    setReplacement("");
+  };
+
+  const startEditing = (pattern: CustomPattern) => {
+    setEditingId(pattern.id);
+    setName(pattern.name);
+    setDescription(pattern.description || "");
+    setRegex(pattern.regex);
+    setIgnoreCase(pattern.flags.includes("i"));
+    setValidator(pattern.validator ?? "none");
+    setNormalizer(pattern.normalizer ?? "none");
+    setReplacement(pattern.replacement || "");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const input = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      regex,
+      flags: ignoreCase ? "i" : "",
+      validator: validator === "none" ? undefined : (validator as CustomValidator),
+      normalizer: normalizer === "none" ? undefined : (normalizer as CustomNormalizer),
+      replacement: normalizer === "format" ? replacement : undefined,
+    };
+    const result = editingId
+      ? await updatePattern(editingId, input)
+      : await createPattern(input);
+    setIsSaving(false);
+
+    if (!result.ok) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.message,
+      });
+      return;
+    }
+
+    toast({
+      title: "Pattern saved",
+      description: `"${input.name}" will be recognized in your next extraction.`,
+    });
+    resetForm();
+  };
+
+  const handleDelete = async (pattern: CustomPattern) => {
+    const result = await deletePattern(pattern.id);
+    if (!result.ok) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.message,
+      });
+      return;
+    }
+    if (editingId === pattern.id) resetForm();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Patterns</DialogTitle>
+          <DialogDescription>
+            Recognize your own formats, such as PO numbers or customer IDs, in
+            every document you extract.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {patterns.length > 0 && (
+            <div className="space-y-2">
+              {patterns.map((pattern) => (
+                <div
+                  key={pattern.id}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{pattern.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      /{pattern.regex}/{pattern.flags}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => startEditing(pattern)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(pattern)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 rounded-lg border p-4">
+            <h4 className="text-sm font-medium">
+              {editingId ? "Edit pattern" : "New pattern"}
+            </h4>
+            <Input
+              placeholder="Pattern name (e.g. PO numbers)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <div className="space-y-1">
+              <Input
+                placeholder="Regular expression (e.g. PO-\d{4}-\d{6})"
+                value={regex}
+                onChange={(e) => setRegex(e.target.value)}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Name a group <code>(?&lt;value&gt;...)</code> to keep only that
+                part, e.g. <code>Account: (?&lt;value&gt;\d+)</code>.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={ignoreCase}
+                onChange={(e) => setIgnoreCase(e.target.checked)}
+              />
+              Ignore case
+            </label>
+
+            <div className="flex gap-2">
+              <Select value={validator} onValueChange={setValidator}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No validation</SelectItem>
+                  {Object.entries(validatorLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={normalizer} onValueChange={setNormalizer}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Keep as written</SelectItem>
+                  {Object.entries(normalizerLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {normalizer === "format" && (
+              <Input
+                placeholder="Replacement (e.g. PO$1$2)"
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                className="font-mono"
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={handleSave}
+                disabled={
+                  isSaving ||
+                  !name.trim() ||
+                  !regex ||
+                  (normalizer === "format" && !replacement)
+                }
+              >
+                {isSaving ? "Saving..." : "Save pattern"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { authHeaders } from "@/lib/fetcher";
+
+const stepLabels: Record<string, string> = {
+  rotate: "Auto-rotated",
+  resize: "Downscaled",
+  grayscale: "Grayscale",
+  normalize: "Contrast normalized",
+  deskew: "Deskewed",
+};
+
+interface PreprocessPreviewProps {
+  file?: File;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shows an upload as the server sends it to the provider, after preprocessing.
+export function PreprocessPreview({ file, open, onOpenChange }: PreprocessPreviewProps) {
+  const [imageUrl, setImageUrl] = useState<string>();
+  const [steps, setSteps] = useState<string[]>([]);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (!open || !file) return;
+
+    const controller = new AbortController();
+    let url: string | undefined;
+    const formData = new FormData();
+    formData.append("image", file);
+
+    setImageUrl(undefined);
+    setError(undefined);
+    authHeaders()
+      .then((headers) =>
+        fetch("/api/preprocess", { method: "POST", headers, body: formData, signal: controller.signal })
+      )
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.message || "Failed to preprocess image");
+        }
+        const header = response.headers.get("X-Preprocessing-Steps");
+        setSteps(header ? header.split(",") : []);
+        url = URL.createObjectURL(await response.blob());
+        setImageUrl(url);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err.message);
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Processed Image</DialogTitle>
+          <DialogDescription>
+            {file?.name} as it is sent for extraction.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : imageUrl ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {steps.length > 0 ? (
+                steps.map((step) => (
+                  <Badge key={step} variant="secondary">
+                    {stepLabels[step] ?? step}
+                  </Badge>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No preprocessing was needed</p>
+              )}
+            </div>
+            <img
+              src={imageUrl}
+              alt={`Processed ${file?.name}`}
+              className="w-full rounded-lg border"
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
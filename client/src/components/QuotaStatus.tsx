@@ -0,0 +1,51 @@
+import { AlertCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { QuotaName, QuotaUsage } from "@/lib/types";
+
+const quotaLabels: Record<QuotaName, string> = {
+  requests: "Requests this minute",
+  images: "Images today",
+  tokens: "Tokens this month",
+};
+
+// "in 5 minutes", "in 3 hours", "in 12 days"
+function formatReset(resetAt: string): string {
+  const minutes = Math.max(1, Math.ceil((new Date(resetAt).getTime() - Date.now()) / 60_000));
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  if (hours < 48) return `in ${hours} hours`;
+  return `in ${Math.ceil(hours / 24)} days`;
+}
+
+interface QuotaStatusProps {
+  quotas: QuotaUsage[];
+}
+
+// Remaining quota, with the quotas that are used up called out
+export function QuotaStatus({ quotas }: QuotaStatusProps) {
+  if (quotas.length === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <h3 className="text-sm font-medium">Usage limits</h3>
+      {quotas.map((quota) => (
+        <div key={quota.name} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">{quotaLabels[quota.name]}</span>
+            <span className={quota.remaining === 0 ? "text-destructive" : ""}>
+              {quota.remaining.toLocaleString()} of {quota.limit.toLocaleString()} left
+            </span>
+          </div>
+          <Progress value={Math.min(100, (quota.used / quota.limit) * 100)} className="h-2" />
+          {quota.remaining === 0 && (
+            <p className="flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              Limit reached, resets {formatReset(quota.resetAt)}
+            </p>
+          )}
+        </div>
+      ))}
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Download, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { canRemoveRow, columnCount, removeRow, tableToCsv, tableToXlsx } from "@/lib/tables";
+import type { ExtractedCell, ExtractedTable } from "@/lib/types";
+
+interface TableEditorProps {
+  table: ExtractedTable;
+  // Base name for exported files, e.g. "receipt-table-1"
+  name: string;
+}
+
+interface CellInputProps {
+  cell: ExtractedCell;
+  onChange: (text: string) => void;
+}
+
+function CellInput({ cell, onChange }: CellInputProps) {
+  return (
+    <input
+      className="w-full min-w-[4rem] bg-transparent rounded-sm px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-ring"
+      value={cell.text}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+// An extracted table with editable cells. Edits stay in the grid until the
+// next extraction and are what gets exported.
+export function TableEditor({ table, name }: TableEditorProps) {
+  const [draft, setDraft] = useState(table);
+  const { toast } = useToast();
+
+  useEffect(() => setDraft(table), [table]);
+
+  const updateCell = (section: "headers" | "rows", rowIndex: number, cellIndex: number, text: string) => {
+    setDraft((current) => ({
+      ...current,
+      [section]: current[section].map((row, r) =>
+        r === rowIndex ? row.map((cell, c) => (c === cellIndex ? { ...cell, text } : cell)) : row
+      ),
+    }));
+  };
+
+  const addRow = () => {
+    setDraft((current) => ({
+      ...current,
+      rows: [...current.rows, Array.from({ length: columnCount(current) }, () => ({ text: "" }))],
+    }));
+  };
+
+  const handleExport = async (format: "csv" | "xlsx") => {
+    try {
+      const blob =
+        format === "csv"
+          ? new Blob([tableToCsv(draft)], { type: "text/csv" })
+          : await tableToXlsx(draft);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${name}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Table export error:", error);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "Failed to export the table. Please try again.",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add row
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setDraft(table)} disabled={draft === table}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleExport("csv")}>
+          <Download className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleExport("xlsx")}>
+          <Download className="h-4 w-4 mr-2" />
+          XLSX
+        </Button>
+      </div>
+      <div className="rounded-lg border overflow-auto">
+        <Table>
+          {draft.headers.length > 0 && (
+            <TableHeader>
+              {draft.headers.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <TableHead key={cellIndex} rowSpan={cell.rowSpan} colSpan={cell.colSpan}>
+                      <CellInput
+                        cell={cell}
+                        onChange={(text) => updateCell("headers", rowIndex, cellIndex, text)}
+                      />
+                    </TableHead>
+                  ))}
+                  {rowIndex === 0 && <TableHead rowSpan={draft.headers.length} className="w-10" />}
+                </TableRow>
+              ))}
+            </TableHeader>
+          )}
+          <TableBody>
+            {draft.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <TableCell key={cellIndex} rowSpan={cell.rowSpan} colSpan={cell.colSpan}>
+                    <CellInput
+                      cell={cell}
+                      onChange={(text) => updateCell("rows", rowIndex, cellIndex, text)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="w-10">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setDraft((current) => removeRow(current, rowIndex))}
+                    disabled={!canRemoveRow(row)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTemplates } from "@/hooks/use-templates";
+import type {
+  ExtractionTemplate,
+  TemplateField,
+  TemplateFieldType,
+} from "@/lib/types";
+
+const fieldTypes: TemplateFieldType[] = [
+  "string",
+  "number",
+  "date",
+  "money",
+  "boolean",
+  "table",
+];
+
+interface TemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TemplateManager({ open, onOpenChange }: TemplateManagerProps) {
+  const { templates, createTemplate, updateTemplate, deleteTemplate } =
+    useTemplates();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [fields, setFields] = useState<TemplateField[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setFields([]);
+  };
+
+  const startEditing = (template: ExtractionTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setDescription(template.description || "");
+    setFields(template.fields);
+  };
+
+  const updateField = (index: number, changes: Partial<TemplateField>) => {
+    setFields(
+      fields.map((field, i) => (i === index ? { ...field, ...changes } : field))
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const input = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      fields: fields.map((field) => ({
+        ...field,
+        name: field.name.trim(),
+        description: field.description?.trim() || undefined,
+      })),
+    };
+    const result = editingId
+      ? await updateTemplate(editingId, input)
+      : await createTemplate(input);
+    setIsSaving(false);
+
+    if (!result.ok) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.message,
+      });
+      return;
+    }
+
+    toast({
+      title: "Template saved",
+      description: `"${input.name}" is ready to use.`,
+    });
+    resetForm();
+  };
+
+  const handleDelete = async (template: ExtractionTemplate) => {
+    const result = await deleteTemplate(template.id);
+    if (!result.ok) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.message,
+      });
+      return;
+    }
+    if (editingId === template.id) resetForm();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) resetForm();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extraction Templates</DialogTitle>
+          <DialogDescription>
+            Save the fields you extract from a document type so you don't have
+            to describe them every time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div>
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {template.fields.map((field) => field.name).join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => startEditing(template)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 rounded-lg border p-4">
+            <h4 className="text-sm font-medium">
+              {editingId ? "Edit template" : "New template"}
+            </h4>
+            <Input
+              placeholder="Template name (e.g. Supplier invoice)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+
+            <div className="space-y-2">
+              {fields.map((field, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="field_name"
+                    value={field.name}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    className="font-mono"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(type) =>
+                      updateField(index, { type: type as TemplateFieldType })
+                    }
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fieldTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Hint (optional)"
+                    value={field.description || ""}
+                    onChange={(e) =>
+                      updateField(index, { description: e.target.value })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setFields([...fields, { name: "", type: "string" }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add field
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim() || fields.length === 0}
+              >
+                {isSaving ? "Saving..." : "Save template"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
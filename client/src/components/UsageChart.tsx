@@ -0,0 +1,73 @@
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DailyUsage, TokenUsage } from "@/lib/types";
+
+const chartConfig = {
+  promptTokens: { label: "Prompt tokens", color: "hsl(var(--primary))" },
+  completionTokens: { label: "Completion tokens", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const formatCost = (cost: number) =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+interface UsageChartProps {
+  days: DailyUsage[];
+  total?: Omit<DailyUsage, "date">;
+  // Totals of the latest batch, shown under the chart
+  lastBatch?: TokenUsage;
+}
+
+// Tokens used per day, stacked by kind, with the period's estimated cost
+export function UsageChart({ days, total, lastBatch }: UsageChartProps) {
+  if (!total || total.files === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-medium">Usage, last {days.length} days</h3>
+        <p className="text-xs text-muted-foreground">
+          {total.files.toLocaleString()} files ·{" "}
+          {(total.promptTokens + total.completionTokens).toLocaleString()} tokens ·{" "}
+          {formatCost(total.cost)}
+        </p>
+      </div>
+      <ChartContainer config={chartConfig} className="h-40 w-full">
+        <BarChart data={days} accessibilityLayer>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(date: string) => date.slice(5)}
+            minTickGap={24}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(date: string) => {
+                  const day = days.find((candidate) => candidate.date === date);
+                  return day ? `${date} · ${day.files} files · ${formatCost(day.cost)}` : date;
+                }}
+              />
+            }
+          />
+          <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+          <Bar dataKey="completionTokens" stackId="tokens" fill="var(--color-completionTokens)" radius={[2, 2, 0, 0]} />
+        </BarChart>
+      </ChartContainer>
+      {lastBatch && (
+        <p className="text-xs text-muted-foreground">
+          Last batch: {(lastBatch.promptTokens + lastBatch.completionTokens).toLocaleString()} tokens
+          {lastBatch.cost !== undefined && ` · ${formatCost(lastBatch.cost)}`}
+          {lastBatch.model && ` · ${lastBatch.model}`}
+        </p>
+      )}
+    </Card>
+  );
+}
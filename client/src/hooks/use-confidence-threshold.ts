@@ -0,0 +1,20 @@
+import { useState } from "react";
+
+const STORAGE_KEY = "confidenceThreshold";
+
+// Values scoring below this are flagged for review. Defaults to
+// VITE_CONFIDENCE_THRESHOLD, or 0.8, and remembers the last choice.
+export function useConfidenceThreshold() {
+  const [threshold, setThreshold] = useState(() => {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    const configured = Number(import.meta.env.VITE_CONFIDENCE_THRESHOLD);
+    return stored > 0 ? stored : configured > 0 ? configured : 0.8;
+  });
+
+  const update = (value: number) => {
+    localStorage.setItem(STORAGE_KEY, String(value));
+    setThreshold(value);
+  };
+
+  return [threshold, update] as const;
+}
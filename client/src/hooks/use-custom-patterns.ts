@@ -0,0 +1,42 @@
+import useSWR from "swr";
+import { authHeaders, workspaceFetcher } from "@/lib/fetcher";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { CustomPattern, CustomPatternInput } from "@/lib/types";
+
+export function useCustomPatterns() {
+  const workspace = useWorkspace();
+  const { data, error, mutate } = useSWR<{ patterns: CustomPattern[] }>(
+    ["/api/patterns", workspace],
+    workspaceFetcher
+  );
+
+  const send = async (url: string, method: string, body?: CustomPatternInput) => {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        ...(await authHeaders()),
+        "X-Workspace": workspace,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      return { ok: false, message: data.message || "Request failed" };
+    }
+    await mutate();
+    return { ok: true };
+  };
+
+  return {
+    patterns: data?.patterns ?? [],
+    isLoading: !error && !data,
+    error,
+    createPattern: (input: CustomPatternInput) =>
+      send("/api/patterns", "POST", input),
+    updatePattern: (id: string, input: CustomPatternInput) =>
+      send(`/api/patterns/${id}`, "PUT", input),
+    deletePattern: (id: string) => send(`/api/patterns/${id}`, "DELETE"),
+  };
+}
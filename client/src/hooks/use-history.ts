@@ -0,0 +1,44 @@
+import useSWR from "swr";
+import { workspaceFetcher } from "@/lib/fetcher";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { ExtractionRecord, HistoryEntry, HistorySort } from "@/lib/types";
+
+export interface HistoryQuery {
+  page: number;
+  pageSize: number;
+  sort: HistorySort;
+  order: "asc" | "desc";
+}
+
+// One page of the files the signed-in user extracted in the workspace
+export function useHistory({ page, pageSize, sort, order }: HistoryQuery) {
+  const workspace = useWorkspace();
+  const { data, error, mutate } = useSWR<{ entries: HistoryEntry[]; total: number }>(
+    [`/api/extractions?page=${page}&pageSize=${pageSize}&sort=${sort}&order=${order}`, workspace],
+    workspaceFetcher,
+    { keepPreviousData: true }
+  );
+
+  return {
+    entries: data?.entries ?? [],
+    total: data?.total ?? 0,
+    isLoading: !error && !data,
+    error,
+    refresh: () => mutate(),
+  };
+}
+
+// A saved extraction with its files' results, once an id is given
+export function useExtraction(id: string | undefined) {
+  const workspace = useWorkspace();
+  const { data, error } = useSWR<{ extraction: ExtractionRecord }>(
+    id ? [`/api/extractions/${id}`, workspace] : null,
+    workspaceFetcher
+  );
+
+  return {
+    extraction: data?.extraction,
+    isLoading: !!id && !error && !data,
+    error,
+  };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+
+// Formats every browser can show in an <img>
+export const displayableTypes = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/bmp"];
+
+// Object URL for showing an uploaded image, revoked when the file changes.
+// Undefined for files the browser cannot display, such as PDF, HEIC or TIFF.
+export function useObjectUrl(file?: File) {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!file || !displayableTypes.includes(file.type)) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+}
@@ -0,0 +1,14 @@
+import useSWR from "swr";
+import type { QuotaUsage } from "@/lib/types";
+
+// The signed-in user's quotas. Call refresh after an extraction.
+export function useQuota() {
+  const { data, error, mutate } = useSWR<{ quotas: QuotaUsage[] }>("/api/quota");
+
+  return {
+    quotas: data?.quotas ?? [],
+    isLoading: !error && !data,
+    error,
+    refresh: () => mutate(),
+  };
+}
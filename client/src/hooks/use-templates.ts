@@ -0,0 +1,43 @@
+import useSWR from "swr";
+import { authHeaders, workspaceFetcher } from "@/lib/fetcher";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { ExtractionTemplate, TemplateInput } from "@/lib/types";
+
+// Templates of the workspace extractions are made in
+export function useTemplates() {
+  const workspace = useWorkspace();
+  const { data, error, mutate } = useSWR<{ templates: ExtractionTemplate[] }>(
+    ["/api/templates", workspace],
+    workspaceFetcher
+  );
+
+  const send = async (url: string, method: string, body?: TemplateInput) => {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        ...(await authHeaders()),
+        "X-Workspace": workspace,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      return { ok: false, message: data.message || "Request failed" };
+    }
+    await mutate();
+    return { ok: true };
+  };
+
+  return {
+    templates: data?.templates ?? [],
+    isLoading: !error && !data,
+    error,
+    createTemplate: (input: TemplateInput) =>
+      send("/api/templates", "POST", input),
+    updateTemplate: (id: string, input: TemplateInput) =>
+      send(`/api/templates/${id}`, "PUT", input),
+    deleteTemplate: (id: string) => send(`/api/templates/${id}`, "DELETE"),
+  };
+}
@@ -0,0 +1,18 @@
+import useSWR from "swr";
+import type { DailyUsage } from "@/lib/types";
+
+// The signed-in user's usage for each of the last `days` days
+export function useUsage(days = 30) {
+  const { data, error, mutate } = useSWR<{
+    days: DailyUsage[];
+    total: Omit<DailyUsage, "date">;
+  }>(`/api/usage?days=${days}`);
+
+  return {
+    days: data?.days ?? [],
+    total: data?.total,
+    isLoading: !error && !data,
+    error,
+    refresh: () => mutate(),
+  };
+}
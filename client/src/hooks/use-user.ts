@@ -1,5 +1,5 @@
 import useSWR from "swr";
-import type { User } from "db/schema";
+import type { User } from "@/lib/types";
 
 export function useUser() {
   const { data: user, error, mutate } = useSWR<User | null>(
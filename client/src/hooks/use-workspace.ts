@@ -0,0 +1,8 @@
+import { useAuth } from "@/contexts/AuthContext";
+
+// Workspace whose custom patterns apply: VITE_WORKSPACE when a team shares
+// one, otherwise the signed-in user's own
+export function useWorkspace(): string {
+  const { user } = useAuth();
+  return import.meta.env.VITE_WORKSPACE || user?.id || "default";
+}
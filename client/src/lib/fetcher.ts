@@ -1,3 +1,11 @@
+import { supabase } from "./supabase";
+
+// Bearer token of the current session, which every /api route requires
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
+
 export class FetchError extends Error {
   info: any;
   status: number;
@@ -9,8 +17,15 @@ export class FetchError extends Error {
 }
 
 // Fetcher function for SWR that includes credentials and handles non-200 responses
-export const fetcher = async (url: string) => {
+export const fetcher = async (url: string) => request(url, await authHeaders());
+
+// Fetcher for routes that act in a workspace, keyed by [url, workspace]
+export const workspaceFetcher = async ([url, workspace]: [string, string]) =>
+  request(url, { ...(await authHeaders()), "X-Workspace": workspace });
+
+async function request(url: string, headers: Record<string, string>) {
   const res = await fetch(url, {
+    headers,
     credentials: "include",
   });
 
@@ -24,4 +39,4 @@ export const fetcher = async (url: string) => {
   }
 
   return res.json();
-};
+}
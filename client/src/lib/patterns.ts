@@ -0,0 +1,9 @@
+import type { PatternValue } from "./types";
+
+// Canonical form of a pattern value as text: ISO dates, E.164 phones, and
+// amounts as a plain number followed by their currency code
+export function formatNormalized({ normalized }: PatternValue): string {
+  if (normalized === null) return "";
+  if (typeof normalized === "string") return normalized;
+  return normalized.currency ? `${normalized.value} ${normalized.currency}` : String(normalized.value);
+}
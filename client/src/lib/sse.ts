@@ -0,0 +1,35 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// EventSource only supports GET, so streamed POST responses are parsed by hand.
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+) {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent({ event, data: data.join("\n") });
+    }
+  }
+}
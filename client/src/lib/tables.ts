@@ -0,0 +1,73 @@
+import writeXlsxFile, { type SheetData } from "write-excel-file/browser";
+import type { ExtractedCell, ExtractedTable } from "./types";
+
+// Places cells on a rectangular grid the way a browser lays out an HTML
+// table. Positions covered by a merged cell, and gaps in short rows, are null.
+export function toGrid(rows: ExtractedCell[][]): (ExtractedCell | null)[][] {
+  const grid: (ExtractedCell | null)[][] = rows.map(() => []);
+  rows.forEach((cells, rowIndex) => {
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[rowIndex][column] !== undefined) column++;
+      const rowSpan = Math.min(cell.rowSpan ?? 1, rows.length - rowIndex);
+      const colSpan = cell.colSpan ?? 1;
+      for (let r = 0; r < rowSpan; r++) {
+        for (let c = 0; c < colSpan; c++) {
+          grid[rowIndex + r][column + c] = r === 0 && c === 0 ? cell : null;
+        }
+      }
+      column += colSpan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) => Array.from({ length: width }, (_, column) => row[column] ?? null));
+}
+
+export function columnCount(table: ExtractedTable): number {
+  return toGrid([...table.headers, ...table.rows])[0]?.length ?? 0;
+}
+
+// Merged cells are written once and the positions they cover are left empty
+export function tableToCsv(table: ExtractedTable): string {
+  const field = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return toGrid([...table.headers, ...table.rows])
+    .map((row) => row.map((cell) => field(cell?.text ?? "")).join(","))
+    .join("\n");
+}
+
+// Merged cells stay merged in the sheet, header rows are bold and plain
+// numbers are written as numbers so they can be summed
+export function tableToXlsx(table: ExtractedTable): Promise<Blob> {
+  const data: SheetData = toGrid([...table.headers, ...table.rows]).map((row, rowIndex) =>
+    row.map((cell) => {
+      if (!cell) return null;
+      const isNumber = /^-?\d+(\.\d+)?$/.test(cell.text);
+      return {
+        value: isNumber ? Number(cell.text) : cell.text,
+        rowSpan: cell.rowSpan,
+        columnSpan: cell.colSpan,
+        fontWeight: rowIndex < table.headers.length ? "bold" : undefined,
+      };
+    })
+  );
+  return writeXlsxFile(data).toBlob();
+}
+
+// Removes a body row. Merged cells reaching into it from above lose a row;
+// rows that start a cell spanning several rows can't be removed.
+export function removeRow(table: ExtractedTable, rowIndex: number): ExtractedTable {
+  const rows = table.rows.map((row, index) =>
+    index < rowIndex
+      ? row.map((cell) =>
+          index + (cell.rowSpan ?? 1) > rowIndex ? { ...cell, rowSpan: (cell.rowSpan ?? 1) - 1 } : cell
+        )
+      : row
+  );
+  rows.splice(rowIndex, 1);
+  return { ...table, rows };
+}
+
+export function canRemoveRow(row: ExtractedCell[]): boolean {
+  return row.every((cell) => (cell.rowSpan ?? 1) === 1);
+}
@@ -0,0 +1,271 @@
+export type PatternType = "date" | "amount" | "email" | "phone" | "address" | "identifier" | "iban" | "vat_id" | "custom";
+
+export interface Amount {
+  value: number;
+  currency: string | null;
+}
+
+// A value as written in the document and its canonical form, or null when it
+// can't be read as its type
+export interface PatternValue<T = string | Amount> {
+  raw: string;
+  normalized: T | null;
+  type: PatternType;
+}
+
+export interface Patterns {
+  dates?: PatternValue<string>[];
+  amounts?: PatternValue<Amount>[];
+  emails?: PatternValue<string>[];
+  phoneNumbers?: PatternValue<string>[];
+  addresses?: PatternValue<string>[];
+  identifiers?: PatternValue<string>[];
+  ibans?: PatternValue<string>[];
+  vatIds?: PatternValue<string>[];
+}
+
+export interface LayoutBlock {
+  type: string;
+  text: string;
+}
+
+// Fractions of the image's width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLine {
+  text: string;
+  box: BoundingBox;
+  words: { text: string; box: BoundingBox }[];
+}
+
+export interface PatternMatch {
+  pattern: keyof Patterns;
+  value: string;
+  box: BoundingBox;
+}
+
+export interface TilingInfo {
+  reason: "size" | "truncated";
+  tiles: { top: number; height: number }[];
+  seams: number[];
+}
+
+// Scores from 0 to 1 of each pattern value (keyed by value) and template field
+export interface Confidence {
+  patterns: { [K in keyof Patterns]?: Record<string, number> };
+  fields?: Record<string, number>;
+  custom?: Record<string, Record<string, number>>;
+}
+
+export interface PageResult {
+  page: number;
+  text: string;
+  patterns: Patterns;
+  blocks?: LayoutBlock[];
+  fields?: Record<string, FieldValue>;
+  tables?: ExtractedTable[];
+  lines?: TextLine[];
+  matches?: PatternMatch[];
+  confidence?: Confidence;
+  custom?: Record<string, PatternValue[]>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  model?: string;
+  // Estimated USD
+  cost?: number;
+}
+
+// One UTC day of the user's extractions
+export interface DailyUsage {
+  date: string;
+  files: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface ExtractionResult {
+  text: string;
+  patterns: Patterns;
+  blocks?: LayoutBlock[];
+  fields?: Record<string, FieldValue>;
+  tables?: ExtractedTable[];
+  lines?: TextLine[];
+  matches?: PatternMatch[];
+  confidence?: Confidence;
+  // Values of the workspace's custom patterns, by pattern name
+  custom?: Record<string, PatternValue[]>;
+  usage?: TokenUsage;
+  templateId?: string;
+  filename: string;
+  cache?: "hit" | "miss";
+  preprocessing?: string[];
+  tiling?: TilingInfo;
+  pages?: PageResult[];
+}
+
+export interface FileError {
+  code: string;
+  message: string;
+  retryAfter?: number;
+}
+
+export type FileStatus = "pending" | "completed" | "failed" | "skipped" | "cancelled";
+
+// One uploaded file in the batch shown on the Home page.
+export interface BatchEntry {
+  filename: string;
+  status: FileStatus;
+  result?: ExtractionResult;
+  error?: FileError;
+}
+
+export type TemplateFieldType = "string" | "number" | "date" | "money" | "boolean" | "table";
+
+export interface TemplateField {
+  name: string;
+  type: TemplateFieldType;
+  description?: string;
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  workspace: string;
+  name: string;
+  description?: string;
+  fields: TemplateField[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TemplateInput = Pick<ExtractionTemplate, "name" | "description" | "fields">;
+
+export type QuotaName = "requests" | "images" | "tokens";
+
+export interface QuotaUsage {
+  name: QuotaName;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export type CustomValidator = "luhn" | "mod97" | "iban" | "vat_id";
+
+export type CustomNormalizer = "uppercase" | "lowercase" | "compact" | "digits" | "date" | "amount" | "format";
+
+export interface CustomPattern {
+  id: string;
+  workspace: string;
+  name: string;
+  description?: string;
+  // A group named "value" is the value; otherwise the whole match is
+  regex: string;
+  flags: string;
+  validator?: CustomValidator;
+  normalizer?: CustomNormalizer;
+  // Used by the "format" normalizer, e.g. "PO-$<year>-$<serial>"
+  replacement?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomPatternInput = Pick<
+  CustomPattern,
+  "name" | "description" | "regex" | "flags" | "validator" | "normalizer" | "replacement"
+>;
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export interface TableValue {
+  headers: string[];
+  rows: string[][];
+}
+
+export type FieldValue = string | number | boolean | Money | TableValue | null;
+
+// Spans work as in HTML: a merged cell is listed once, where it starts, and
+// the cells it covers are left out of the rows
+export interface ExtractedCell {
+  text: string;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+export interface ExtractedTable {
+  headers: ExtractedCell[][];
+  rows: ExtractedCell[][];
+}
+
+// A signed-in user, as saved with their extraction history
+export interface User {
+  id: string;
+  email: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+// Outcome of one file of a saved extraction
+export type SavedFile =
+  | (ExtractionResult & { status: "ok" })
+  | { filename: string; status: "failed" | "skipped"; error: FileError };
+
+// An extraction request saved in history, with its files in upload order
+export interface ExtractionRecord {
+  id: string;
+  workspace: string;
+  provider: string;
+  templateId?: string;
+  requirements?: string;
+  createdAt: string;
+  usage: TokenUsage;
+  tags: string[];
+  files: SavedFile[];
+}
+
+export type DocumentType =
+  | "invoice"
+  | "receipt"
+  | "bank_statement"
+  | "business_card"
+  | "id_document"
+  | "contract"
+  | "letter"
+  | "other";
+
+// One file of the history list
+export interface HistoryEntry {
+  id: string;
+  extractionId: string;
+  // Place of the file in its extraction, from 0
+  position: number;
+  filename: string;
+  status: "ok" | "failed" | "skipped";
+  documentType?: DocumentType;
+  // Data URL of a small preview
+  thumbnail?: string;
+  createdAt: string;
+  batchSize: number;
+  tags: string[];
+}
+
+export type HistorySort = "date" | "filename" | "type";
+
+// Per-upload choices made next to the dropzone
+export interface UploadOptions {
+  requirements?: string;
+  templateId?: string;
+  // Provider name, or undefined for the server's default
+  provider?: string;
+}
@@ -6,6 +6,7 @@ import { SWRConfig } from "swr";
 import { fetcher } from "./lib/fetcher";
 import { Toaster } from "@/components/ui/toaster";
 import Home from "./pages/Home";
+import History from "./pages/History";
 import Landing from "./pages/Landing";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { Loader2 } from "lucide-react";
@@ -56,6 +57,11 @@ function AppRoutes() {
             <Home />
           </ProtectedRoute>
         </Route>
+        <Route path="/app/history">
+          <ProtectedRoute>
+            <History />
+          </ProtectedRoute>
+        </Route>
         <Route>
           <div className="min-h-screen flex items-center justify-center p-4">
             <div className="text-center space-y-4">
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, FileImage, Upload } from "lucide-react";
+import { ExtractedText } from "@/components/ExtractedText";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useExtraction, useHistory, type HistoryQuery } from "@/hooks/use-history";
+import { cn } from "@/lib/utils";
+import type { DocumentType, HistoryEntry, HistorySort } from "@/lib/types";
+
+const PAGE_SIZE = 20;
+
+const documentTypeLabels: Record<DocumentType, string> = {
+  invoice: "Invoice",
+  receipt: "Receipt",
+  bank_statement: "Bank statement",
+  business_card: "Business card",
+  id_document: "ID document",
+  contract: "Contract",
+  letter: "Letter",
+  other: "Other",
+};
+
+// Pages to link to: the first, the last and the two either side of the
+// current one, with null where pages are left out
+function pageNumbers(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let number = 1; number <= pageCount; number++) {
+    if (number === 1 || number === pageCount || Math.abs(number - page) <= 2) {
+      pages.push(number);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+interface SortHeaderProps {
+  label: string;
+  sort: HistorySort;
+  query: HistoryQuery;
+  onSort: (sort: HistorySort) => void;
+}
+
+function SortHeader({ label, sort, query, onSort }: SortHeaderProps) {
+  const Icon = query.sort !== sort ? ArrowUpDown : query.order === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <Button variant="ghost" size="sm" className="-ml-3" onClick={() => onSort(sort)}>
+      {label}
+      <Icon className="h-4 w-4 ml-2" />
+    </Button>
+  );
+}
+
+export default function History() {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState<HistoryQuery>({ page: 1, pageSize: PAGE_SIZE, sort: "date", order: "desc" });
+  const [selected, setSelected] = useState<HistoryEntry>();
+  const { entries, total, isLoading, error } = useHistory(query);
+  const { extraction, isLoading: isLoadingExtraction } = useExtraction(selected?.extractionId);
+
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize));
+  const file = extraction?.files[selected?.position ?? 0];
+  const result = file?.status === "ok" ? file : undefined;
+
+  // A new column sorts ascending, except dates which start with the newest
+  const handleSort = (sort: HistorySort) => {
+    setQuery((current) => ({
+      ...current,
+      page: 1,
+      sort,
+      order: current.sort === sort ? (current.order === "asc" ? "desc" : "asc") : sort === "date" ? "desc" : "asc",
+    }));
+  };
+
+  const goToPage = (page: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (page >= 1 && page <= pageCount) setQuery((current) => ({ ...current, page }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">History</h1>
+          <Button variant="outline" onClick={() => setLocation("/app")}>
+            <Upload className="h-4 w-4 mr-2" />
+            Extract Text
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className="p-4 space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16" />
+                  <TableHead>
+                    <SortHeader label="File" sort="filename" query={query} onSort={handleSort} />
+                  </TableHead>
+                  <TableHead>
+                    <SortHeader label="Date" sort="date" query={query} onSort={handleSort} />
+                  </TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>
+                    <SortHeader label="Type" sort="type" query={query} onSort={handleSort} />
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow
+                    key={entry.id}
+                    data-state={entry.id === selected?.id ? "selected" : undefined}
+                    className="cursor-pointer"
+                    onClick={() => setSelected(entry)}
+                  >
+                    <TableCell>
+                      {entry.thumbnail ? (
+                        <img
+                          src={entry.thumbnail}
+                          alt=""
+                          className="h-12 w-12 rounded object-cover border"
+                        />
+                      ) : (
+                        <div className="h-12 w-12 rounded border flex items-center justify-center">
+                          <FileImage className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {entry.status !== "ok" && (
+                          <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />
+                        )}
+                        <span className="font-medium break-all">{entry.filename}</span>
+                      </div>
+                      {entry.batchSize > 1 && (
+                        <p className="text-xs text-muted-foreground">
+                          {entry.position + 1} of {entry.batchSize} in batch
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {entry.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {entry.documentType ? documentTypeLabels[entry.documentType] : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      {error ? "Could not load your history." : "Nothing extracted yet."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={goToPage(query.page - 1)}
+                      className={cn(query.page === 1 && "pointer-events-none opacity-50")}
+                    />
+                  </PaginationItem>
+                  {pageNumbers(query.page, pageCount).map((page, index) => (
+                    <PaginationItem key={page ?? `gap-${index}`}>
+                      {page === null ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink href="#" isActive={page === query.page} onClick={goToPage(page)}>
+                          {page}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={goToPage(query.page + 1)}
+                      className={cn(query.page === pageCount && "pointer-events-none opacity-50")}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </Card>
+
+          <div className="space-y-6">
+            {file && file.status !== "ok" && (
+              <Card className="p-4 border-destructive/50">
+                <div className="flex gap-2">
+                  <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                  <div>
+                    <p className="font-medium">
+                      {file.status === "failed"
+                        ? `Could not extract text from ${file.filename}`
+                        : `Skipped ${file.filename}`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{file.error.message}</p>
+                  </div>
+                </div>
+              </Card>
+            )}
+            {selected ? (
+              <ExtractedText
+                text={result?.text || ""}
+                patterns={result?.patterns}
+                fields={result?.fields}
+                tables={result?.tables}
+                pages={result?.pages}
+                tiling={result?.tiling}
+                lines={result?.lines}
+                matches={result?.matches}
+                confidence={result?.confidence}
+                custom={result?.custom}
+                filename={result?.filename}
+                isLoading={isLoadingExtraction}
+              />
+            ) : (
+              <Card className="p-6 text-center text-muted-foreground">
+                Select a file to see what was extracted from it.
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
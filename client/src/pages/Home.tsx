@@ -1,12 +1,18 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { ImageUpload } from "@/components/ImageUpload";
 import { ExtractedText } from "@/components/ExtractedText";
 import { TagManager } from "@/components/TagManager";
+import { QuotaStatus } from "@/components/QuotaStatus";
+import { UsageChart } from "@/components/UsageChart";
 import { Button } from "@/components/ui/button";
-import { Home as HomeIcon, LogOut, Download, FileText, FileJson, Table } from "lucide-react";
+import { Home as HomeIcon, LogOut, Download, FileText, FileJson, Table, Loader2, AlertCircle, RotateCw, Eye, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useObjectUrl } from "@/hooks/use-object-url";
 import { useLocation } from "wouter";
 import { useAuth } from "@/contexts/AuthContext";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useQuota } from "@/hooks/use-quota";
+import { useUsage } from "@/hooks/use-usage";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,92 +20,272 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ReviewDialog } from "@/components/ReviewDialog";
+import { PreprocessPreview } from "@/components/PreprocessPreview";
+import { readEventStream } from "@/lib/sse";
+import { authHeaders } from "@/lib/fetcher";
+import { Card } from "@/components/ui/card";
+import { formatNormalized } from "@/lib/patterns";
+import type {
+  Amount,
+  BatchEntry,
+  ExtractionResult,
+  FileError,
+  PatternValue,
+  Patterns,
+  TokenUsage,
+  UploadOptions,
+} from "@/lib/types";
 
-interface Patterns {
-  dates?: string[];
-  amounts?: string[];
-  emails?: string[];
-  phoneNumbers?: string[];
-  addresses?: string[];
-  identifiers?: string[];
+interface UploadRequest extends UploadOptions {
+  files: File[];
 }
 
-interface ExtractionResult {
-  text: string;
-  patterns: Patterns;
-  filename: string;
-  extraction?: any;
+const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Built-in patterns by key, then custom patterns by name
+const patternEntries = (result: ExtractionResult) =>
+  [...Object.entries(result.patterns), ...Object.entries(result.custom ?? {})] as [string, PatternValue[] | undefined][];
+
+function buildFormData(files: File[], { requirements, templateId, provider }: UploadOptions) {
+  const formData = new FormData();
+  files.forEach((file) => {
+    formData.append("images", file);
+  });
+  if (requirements) {
+    formData.append("requirements", requirements);
+  }
+  if (templateId) {
+    formData.append("templateId", templateId);
+  }
+  if (provider) {
+    formData.append("provider", provider);
+  }
+  return formData;
 }
 
 export default function Home() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { signOut } = useAuth();
-  const [results, setResults] = useState<ExtractionResult[]>([]);
+  const workspace = useWorkspace();
+  const { quotas, refresh: refreshQuota } = useQuota();
+  const { days: usageDays, total: usageTotal, refresh: refreshUsage } = useUsage();
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [tags, setTags] = useState<string[]>([]);
+  // History entry of the latest batch, which its tags are saved to
+  const [extractionId, setExtractionId] = useState<string>();
+  const [batchUsage, setBatchUsage] = useState<TokenUsage>();
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [showReview, setShowReview] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+  const lastUpload = useRef<UploadRequest | null>(null);
+
+  const results = entries.flatMap((entry) => (entry.result ? [entry.result] : []));
+
+  const updateEntry = (index: number, changes: Partial<BatchEntry>) => {
+    setEntries((current) =>
+      current.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    );
+  };
 
-  const handleImageUpload = async (files: File[], requirements?: string) => {
+  // The server rejected the session, e.g. because it expired: sign out and
+  // send the user back to sign in
+  const handleUnauthorized = async () => {
+    toast({
+      variant: "destructive",
+      title: "Session expired",
+      description: "Please sign in again.",
+    });
+    await signOut();
+    setLocation("/auth");
+  };
+
+  const handleImageUpload = async (files: File[], options: UploadOptions) => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    lastUpload.current = { files, ...options };
     setIsLoading(true);
     setProgress(0);
-    setResults([]);
+    setEntries(files.map((file) => ({ filename: file.name, status: "pending" })));
+    setSelectedIndex(0);
+    setExtractionId(undefined);
+
+    const failures: FileError[] = [];
+    let firstResult: ExtractionResult | undefined;
+    let savedId: string | undefined;
+    let errorTitle = "Error";
+    let errorMessage = "Failed to extract text from images";
 
     try {
-      const formData = new FormData();
-      files.forEach((file) => {
-        formData.append("images", file);
+      const response = await fetch("/api/extract/stream", {
+        method: "POST",
+        headers: { ...(await authHeaders()), "X-Workspace": workspace },
+        body: buildFormData(files, options),
+        signal: controller.signal,
       });
-      if (requirements) {
-        formData.append("requirements", requirements);
+
+      if (response.status === 401) {
+        setEntries([]);
+        await handleUnauthorized();
+        return;
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        if (data.message) errorMessage = data.message;
+        // A quota of ours rather than the provider's rate limit
+        if (response.status === 429 && data.quota) errorTitle = "Limit reached";
+        throw new Error(errorMessage);
       }
 
-      const response = await fetch("/api/extract", {
-        method: "POST",
-        body: formData,
+      await readEventStream(response, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case "result":
+            firstResult ??= payload.result;
+            updateEntry(payload.index, { status: "completed", result: payload.result });
+            break;
+          case "error":
+            failures.push(payload.error);
+            updateEntry(payload.index, { status: payload.status, error: payload.error });
+            break;
+          case "progress":
+            setProgress(Math.round((payload.processed / payload.total) * 100));
+            break;
+          case "done":
+            setBatchUsage(payload.usage);
+            savedId = payload.extractionId;
+            setExtractionId(savedId);
+            break;
+        }
       });
 
-      if (!response.ok) throw new Error("Failed to extract text");
+      // Distinct reasons, e.g. "Provider rate limited, retry in 20s"
+      const reasons = [...new Set(failures.map((failure) => failure.message))].join(". ");
+      if (!firstResult) {
+        if (reasons) errorMessage = reasons;
+        throw new Error(errorMessage);
+      }
+      if (failures.length > 0) {
+        toast({
+          variant: "destructive",
+          title: `${failures.length} of ${files.length} files failed`,
+          description: reasons,
+        });
+      }
 
-      const data = await response.json();
-      setResults(data.results);
-      setSelectedIndex(0);
-
-      if (data.results.length > 0) {
-        const firstResult = data.results[0];
-        const newTags = new Set<string>();
-        if (firstResult.patterns) {
-          if (firstResult.patterns.dates?.length) newTags.add("date");
-          if (firstResult.patterns.amounts?.length) newTags.add("amount");
-          if (firstResult.patterns.emails?.length) newTags.add("email");
-          if (firstResult.patterns.phoneNumbers?.length) newTags.add("phone");
-          if (firstResult.patterns.addresses?.length) newTags.add("address");
-          if (firstResult.patterns.identifiers?.length) newTags.add("reference");
-        }
-        setTags(Array.from(newTags));
+      const newTags = new Set<string>();
+      if (firstResult.patterns) {
+        if (firstResult.patterns.dates?.length) newTags.add("date");
+        if (firstResult.patterns.amounts?.length) newTags.add("amount");
+        if (firstResult.patterns.emails?.length) newTags.add("email");
+        if (firstResult.patterns.phoneNumbers?.length) newTags.add("phone");
+        if (firstResult.patterns.addresses?.length) newTags.add("address");
+        if (firstResult.patterns.identifiers?.length) newTags.add("reference");
+        if (firstResult.patterns.ibans?.length) newTags.add("iban");
+        if (firstResult.patterns.vatIds?.length) newTags.add("vat");
       }
+      await saveTags(Array.from(newTags), savedId);
 
       setShowReview(true);
     } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to extract text from images",
-      });
+      if (!controller.signal.aborted) {
+        toast({
+          variant: "destructive",
+          title: errorTitle,
+          description: errorMessage,
+        });
+      }
     } finally {
+      refreshQuota();
+      refreshUsage();
+      abortController.current = null;
       setIsLoading(false);
       setProgress(100);
     }
   };
 
+  const handleRetry = async (index: number) => {
+    const upload = lastUpload.current;
+    const file = upload?.files[index];
+    if (!upload || !file) return;
+
+    updateEntry(index, { status: "pending", error: undefined });
+    try {
+      const response = await fetch("/api/extract", {
+        method: "POST",
+        headers: { ...(await authHeaders()), "X-Workspace": workspace },
+        body: buildFormData([file], upload),
+      });
+      if (response.status === 401) {
+        await handleUnauthorized();
+        return;
+      }
+      const data = await response.json();
+      const [result] = data.results ?? [];
+
+      if (result?.status === "ok") {
+        updateEntry(index, { status: "completed", result });
+      } else {
+        updateEntry(index, {
+          status: result?.status ?? "failed",
+          error: result?.error ?? {
+            code: "request_failed",
+            message: data.message || "Failed to extract text",
+          },
+        });
+      }
+    } catch (error) {
+      updateEntry(index, {
+        status: "failed",
+        error: { code: "network_error", message: "Could not reach the server" },
+      });
+    }
+    refreshQuota();
+    refreshUsage();
+  };
+
+  const handleCancel = () => {
+    abortController.current?.abort();
+    setEntries((current) =>
+      current.map((entry) =>
+        entry.status === "pending" ? { ...entry, status: "cancelled" } : entry
+      )
+    );
+    toast({
+      title: "Extraction cancelled",
+      description: "Results that were already processed have been kept.",
+    });
+  };
+
+  // Shows the tags and saves them with the batch's history entry, if it was saved
+  const saveTags = async (next: string[], id = extractionId) => {
+    setTags(next);
+    if (!id) return;
+    try {
+      const response = await fetch(`/api/extractions/${id}/tags`, {
+        method: "PUT",
+        headers: { ...(await authHeaders()), "X-Workspace": workspace, "Content-Type": "application/json" },
+        body: JSON.stringify({ tags: next }),
+      });
+      if (!response.ok) throw new Error((await response.json().catch(() => ({}))).message);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Tags not saved",
+        description: error instanceof Error && error.message ? error.message : "Could not reach the server",
+      });
+    }
+  };
+
   const handleAddTag = (tag: string) => {
-    setTags([...tags, tag]);
+    saveTags([...tags, tag]);
   };
 
   const handleRemoveTag = (tag: string) => {
-    setTags(tags.filter((t) => t !== tag));
+    saveTags(tags.filter((t) => t !== tag));
   };
 
   const handleLogout = async () => {
@@ -119,7 +305,7 @@ export default function Home() {
     }
   };
 
-  const handleExport = (format: 'csv' | 'txt' | 'json') => {
+  const handleExport = (format: 'csv' | 'patterns' | 'txt' | 'json') => {
     if (!results.length) {
       toast({
         variant: "destructive",
@@ -135,23 +321,62 @@ export default function Home() {
       let type: string;
 
       switch (format) {
-        case 'csv':
-          content = results.map(result => {
-            return `"${result.filename}","${result.text.replace(/"/g, '""')}","${Object.entries(result.patterns)
-              .map(([key, values]) => `${key}: ${values?.join(', ')}`)
-              .join('","')}"`;
-          }).join('\n');
-          content = `Filename,Text,${Object.keys(results[0].patterns).join(',')}\n${content}`;
+        case 'csv': {
+          // Each kind of pattern, built-in or custom, gets a column of raw
+          // values and one of normalized values
+          const keys = Object.keys(results[0].patterns) as (keyof Patterns)[];
+          const customNames = [...new Set(results.flatMap((result) => Object.keys(result.custom ?? {})))];
+          const columns = (values: PatternValue[] = []) => [
+            values.map((value) => value.raw).join('; '),
+            values.map(formatNormalized).join('; '),
+          ];
+          content = results.map(result => [
+            result.filename,
+            result.text,
+            ...keys.flatMap((key) => columns(result.patterns[key])),
+            ...customNames.flatMap((name) => columns(result.custom?.[name])),
+          ].map(quote).join(',')).join('\n');
+          content = `Filename,Text,${[
+            ...keys.map((key) => `${key},${key} (normalized)`),
+            ...customNames.map((name) => `${quote(name)},${quote(`${name} (normalized)`)}`),
+          ].join(',')}\n${content}`;
           filename = 'extractions.csv';
           type = 'text/csv';
           break;
+        }
+
+        case 'patterns':
+          // One row per value, with amounts split into a number and a currency for spreadsheets
+          content = results.flatMap(result =>
+            patternEntries(result).flatMap(([key, values]) =>
+              (values ?? []).map((value) => {
+                const amount = value.type === 'amount' ? (value.normalized as Amount | null) : null;
+                return [
+                  result.filename,
+                  key,
+                  value.raw,
+                  amount ? String(amount.value) : formatNormalized(value),
+                  amount?.currency ?? '',
+                ].map(quote).join(',');
+              })
+            )
+          ).join('\n');
+          content = `Filename,Pattern,Raw,Normalized,Currency\n${content}`;
+          filename = 'patterns.csv';
+          type = 'text/csv';
+          break;
 
         case 'txt':
           content = results.map(result => {
             return `File: ${result.filename}\n` +
               `Text: ${result.text}\n` +
-              `Patterns:\n${Object.entries(result.patterns)
-                .map(([key, values]) => `  ${key}: ${values?.join(', ')}`)
+              `Patterns:\n${patternEntries(result)
+                .map(([key, values]) => `  ${key}: ${(values ?? [])
+                  .map((value) => {
+                    const normalized = formatNormalized(value);
+                    return normalized && normalized !== value.raw ? `${value.raw} (${normalized})` : value.raw;
+                  })
+                  .join(', ')}`)
                 .join('\n')}\n` +
               '-'.repeat(50);
           }).join('\n\n');
@@ -181,7 +406,7 @@ export default function Home() {
 
       toast({
         title: "Export successful",
-        description: `Data exported as ${format.toUpperCase()}`,
+        description: `Data exported as ${filename}`,
       });
     } catch (error) {
       console.error('Export error:', error);
@@ -193,7 +418,9 @@ export default function Home() {
     }
   };
 
-  const currentResult = results[selectedIndex];
+  const currentEntry = entries[selectedIndex];
+  const currentResult = currentEntry?.result;
+  const imageUrl = useObjectUrl(lastUpload.current?.files[selectedIndex]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -213,6 +440,10 @@ export default function Home() {
                   <Table className="h-4 w-4 mr-2" />
                   Export as CSV
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('patterns')}>
+                  <Table className="h-4 w-4 mr-2" />
+                  Export patterns as CSV
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => handleExport('txt')}>
                   <FileText className="h-4 w-4 mr-2" />
                   Export as TXT
@@ -223,6 +454,10 @@ export default function Home() {
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Button variant="outline" onClick={() => setLocation("/app/history")}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
             <Button variant="outline" onClick={() => setLocation("/")}>
               <HomeIcon className="h-4 w-4 mr-2" />
               Home
@@ -240,35 +475,101 @@ export default function Home() {
               onImageUpload={handleImageUpload}
               isLoading={isLoading}
               progress={progress}
+              onCancel={handleCancel}
+              statuses={entries.map((entry) => entry.status)}
             />
-            {results.length > 1 && (
+            {entries.length > 1 && (
               <div className="flex gap-2 overflow-x-auto p-2">
-                {results.map((result, index) => (
+                {entries.map((entry, index) => (
                   <Button
                     key={index}
                     variant={index === selectedIndex ? "default" : "outline"}
                     onClick={() => setSelectedIndex(index)}
                     className="whitespace-nowrap"
                   >
-                    {result.filename}
+                    {entry.status === "pending" && (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    )}
+                    {(entry.status === "failed" || entry.status === "skipped") && (
+                      <AlertCircle className="h-4 w-4 mr-2 text-destructive" />
+                    )}
+                    {entry.filename}
                   </Button>
                 ))}
               </div>
             )}
+            <QuotaStatus quotas={quotas} />
+            <UsageChart days={usageDays} total={usageTotal} lastBatch={batchUsage} />
             <TagManager
               tags={tags}
               onAddTag={handleAddTag}
               onRemoveTag={handleRemoveTag}
             />
           </div>
-          <ExtractedText
-            text={currentResult?.text || ""}
-            patterns={currentResult?.patterns}
-            isLoading={isLoading}
-          />
+          <div className="space-y-6">
+            {(currentEntry?.status === "failed" ||
+              currentEntry?.status === "skipped") && (
+              <Card className="p-4 border-destructive/50">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex gap-2">
+                    <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                    <div>
+                      <p className="font-medium">
+                        {currentEntry.status === "failed"
+                          ? `Could not extract text from ${currentEntry.filename}`
+                          : `Skipped ${currentEntry.filename}`}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {currentEntry.error?.message}
+                      </p>
+                    </div>
+                  </div>
+                  {currentEntry.status === "failed" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetry(selectedIndex)}
+                    >
+                      <RotateCw className="h-4 w-4 mr-2" />
+                      Retry this file
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            )}
+            {currentResult && !currentResult.pages && (
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => setShowPreview(true)}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview processed image
+                </Button>
+              </div>
+            )}
+            <ExtractedText
+              text={currentResult?.text || ""}
+              patterns={currentResult?.patterns}
+              fields={currentResult?.fields}
+              tables={currentResult?.tables}
+              pages={currentResult?.pages}
+              tiling={currentResult?.tiling}
+              lines={currentResult?.lines}
+              matches={currentResult?.matches}
+              confidence={currentResult?.confidence}
+              custom={currentResult?.custom}
+              imageUrl={imageUrl}
+              filename={currentResult?.filename}
+              isLoading={currentEntry ? currentEntry.status === "pending" : isLoading}
+            />
+          </div>
         </div>
       </div>
 
+      <PreprocessPreview
+        file={lastUpload.current?.files[selectedIndex]}
+        open={showPreview}
+        onOpenChange={setShowPreview}
+      />
+
       <ReviewDialog 
         open={showReview} 
         onOpenChange={setShowReview}
@@ -0,0 +1,193 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from "crypto";
+import { z } from "zod";
+import type { NextFunction, Request, Response } from "express";
+
+export interface AuthUser {
+  // The token's subject: the Supabase user id, or whoever a self-hosted token names
+  id: string;
+  email?: string;
+  // Shared workspaces the user may act in besides their own, from the
+  // token's app_metadata.workspaces (Supabase) or workspaces claim
+  workspaces: string[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      // Workspace the request acts in: the user's own id, or a shared
+      // workspace named in X-Workspace that the user belongs to
+      workspace?: string;
+    }
+  }
+}
+
+export class InvalidTokenError extends Error {
+  constructor(message = "Invalid or expired session") {
+    super(message);
+    this.name = "InvalidTokenError";
+  }
+}
+
+// AUTH=off lets every request through as one local user, for development
+// and private deployments behind their own access control
+export function authEnabled(): boolean {
+  return process.env.AUTH !== "off";
+}
+
+// HS256 secrets tokens may be signed with: the Supabase project's JWT secret,
+// and AUTH_SECRET for self-hosted deployments that issue their own tokens
+function sharedSecrets(): string[] {
+  return [process.env.SUPABASE_JWT_SECRET, process.env.AUTH_SECRET].filter((secret): secret is string => !!secret);
+}
+
+// Supabase projects with asymmetric signing keys publish them here. Keys are
+// refetched when stale or, for key rotation, when a token names one we
+// haven't seen, but at most once per JWKS_MIN_REFETCH_MS so tokens with
+// made-up key ids can't make every request call out.
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+const JWKS_TIMEOUT_MS = 5000;
+let jwks: { keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+let fetching: Promise<void> | null = null;
+let lastFetchAt = 0;
+
+function fetchKeys(url: string): Promise<void> {
+  fetching ??= (async () => {
+    lastFetchAt = Date.now();
+    const res = await fetch(new URL("/auth/v1/.well-known/jwks.json", url), {
+      signal: AbortSignal.timeout(JWKS_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Fetching signing keys failed with ${res.status}`);
+    const { keys } = (await res.json()) as { keys: (JsonWebKey & { kid?: string })[] };
+    jwks = {
+      keys: new Map(keys.filter((key) => key.kid).map((key) => [key.kid!, createPublicKey({ key, format: "jwk" })])),
+      fetchedAt: Date.now(),
+    };
+  })().finally(() => {
+    fetching = null;
+  });
+  return fetching;
+}
+
+async function publicKey(kid: string | undefined): Promise<KeyObject | undefined> {
+  const url = process.env.SUPABASE_URL;
+  if (!url || !kid) return undefined;
+
+  const now = Date.now();
+  const stale = !jwks || now - jwks.fetchedAt > JWKS_TTL_MS;
+  if (fetching) {
+    await fetching;
+  } else if ((stale || !jwks?.keys.has(kid)) && now - lastFetchAt > JWKS_MIN_REFETCH_MS) {
+    await fetchKeys(url);
+  }
+  if (!jwks) throw new Error("Signing keys are unavailable");
+  return jwks.keys.get(kid);
+}
+
+const headerSchema = z.object({
+  alg: z.string(),
+  kid: z.string().optional(),
+});
+
+// Names that aren't strings are ignored rather than rejecting the session
+const workspacesSchema = z
+  .array(z.unknown())
+  .transform((names) => names.filter((name): name is string => typeof name === "string"))
+  .optional()
+  .catch(undefined);
+
+// Claims a session must have; exp and sub are required
+const payloadSchema = z.object({
+  sub: z.string().min(1),
+  exp: z.number(),
+  nbf: z.number().optional(),
+  email: z.string().optional().catch(undefined),
+  workspaces: workspacesSchema,
+  app_metadata: z.object({ workspaces: workspacesSchema }).optional().catch(undefined),
+});
+
+function decodePart(part: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidTokenError();
+  }
+}
+
+function parsePart<T>(part: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const parsed = schema.safeParse(decodePart(part));
+  if (!parsed.success) throw new InvalidTokenError();
+  return parsed.data;
+}
+
+// Verifies a JWT's signature and expiry and returns the user it was issued to.
+// Tokens without a subject, such as Supabase's anon and service keys, are not
+// sessions and are rejected.
+export async function verifyToken(token: string): Promise<AuthUser> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new InvalidTokenError();
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = parsePart(encodedHeader, headerSchema);
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, "base64url");
+
+  let valid = false;
+  if (header.alg === "HS256") {
+    valid = sharedSecrets().some((secret) => {
+      const expected = createHmac("sha256", secret).update(signed).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    });
+  } else if (header.alg === "ES256" || header.alg === "RS256") {
+    const key = await publicKey(header.kid);
+    valid = !!key && verify("sha256", signed, { key, dsaEncoding: "ieee-p1363" }, signature);
+  }
+  if (!valid) throw new InvalidTokenError();
+
+  const payload = parsePart(encodedPayload, payloadSchema);
+  const now = Date.now() / 1000;
+  if (payload.exp <= now || (payload.nbf !== undefined && payload.nbf > now)) {
+    throw new InvalidTokenError();
+  }
+
+  return {
+    id: payload.sub,
+    email: payload.email,
+    workspaces: payload.app_metadata?.workspaces ?? payload.workspaces ?? [],
+  };
+}
+
+// Requires "Authorization: Bearer <token>" and attaches the user and their
+// workspace to the request. Responds 401 for missing or invalid tokens and
+// 403 for workspaces the user doesn't belong to.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const requested = req.get("X-Workspace")?.trim() || undefined;
+
+  if (!authEnabled()) {
+    req.user = { id: "default", workspaces: [] };
+    req.workspace = requested ?? "default";
+    return next();
+  }
+
+  const [scheme, token] = req.get("Authorization")?.split(" ") ?? [];
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  try {
+    req.user = await verifyToken(token);
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      return res.status(401).json({ message: error.message });
+    }
+    console.error("Error verifying session:", error);
+    return res.status(503).json({ message: "Could not verify the session, please try again" });
+  }
+
+  if (requested && requested !== req.user.id && !req.user.workspaces.includes(requested)) {
+    return res.status(403).json({ message: "You are not a member of this workspace" });
+  }
+  req.workspace = requested ?? req.user.id;
+  return next();
+}
@@ -0,0 +1,88 @@
+import fs from "fs/promises";
+import path from "path";
+import type { ExtractedData } from "./types.js";
+
+// Storage for extraction results keyed by a content hash of the image and
+// everything else that affects the provider's output.
+export interface ResultCache {
+  get(key: string): Promise<ExtractedData | undefined>;
+  set(key: string, value: ExtractedData): Promise<void>;
+}
+
+interface Entry {
+  expiresAt: number;
+  value: ExtractedData;
+}
+
+export function createMemoryCache({ maxEntries, ttlMs }: { maxEntries: number; ttlMs: number }): ResultCache {
+  // Map keeps insertion order, so re-inserting on read makes the first key the least recently used
+  const entries = new Map<string, Entry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { expiresAt: Date.now() + ttlMs, value });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+export function createDiskCache({ dir, ttlMs }: { dir: string; ttlMs: number }): ResultCache {
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      let entry: Entry;
+      try {
+        entry = JSON.parse(await fs.readFile(fileFor(key), "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(fileFor(key), { force: true });
+        return undefined;
+      }
+      return entry.value;
+    },
+    async set(key, value) {
+      await fs.mkdir(dir, { recursive: true });
+      const entry: Entry = { expiresAt: Date.now() + ttlMs, value };
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    },
+  };
+}
+
+// CACHE_BACKEND picks "memory" (default), "disk" or "none".
+export function createCacheFromEnv(): ResultCache | undefined {
+  const ttlMs = parseInt(process.env.CACHE_TTL_SECONDS || "86400", 10) * 1000;
+
+  switch (process.env.CACHE_BACKEND || "memory") {
+    case "none":
+      return undefined;
+    case "disk":
+      return createDiskCache({
+        dir: path.resolve(process.env.CACHE_DIR || path.join(process.env.DATA_DIR || "data", "cache")),
+        ttlMs,
+      });
+    case "memory":
+      return createMemoryCache({
+        maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || "500", 10),
+        ttlMs,
+      });
+    default:
+      throw new Error(`Unknown cache backend: ${process.env.CACHE_BACKEND}`);
+  }
+}
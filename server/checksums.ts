@@ -0,0 +1,153 @@
+// Check digit validation for bank account and tax numbers.
+
+// IBAN length per country, from the SWIFT IBAN registry
+const ibanLengths: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CR: 22, CY: 28, CZ: 24,
+  DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18,
+  GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LI: 21,
+  LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24,
+  PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26,
+  UA: 29, VG: 24, XK: 20,
+};
+
+// ISO 13616: the right length for its country, and the whole number, with
+// the country and check digits moved to the end, is 1 mod 97.
+export function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban) || ibanLengths[iban.slice(0, 2)] !== iban.length) return false;
+  return mod97(iban.slice(4) + iban.slice(0, 4)) === 1;
+}
+
+type VatRule = { format: RegExp; check?: (number: string) => boolean };
+
+// VAT numbers without their country prefix. Countries without a check here
+// only have their format checked.
+const vatRules: Record<string, VatRule> = {
+  AT: { format: /^U\d{8}$/, check: austria },
+  BE: { format: /^[01]\d{9}$/, check: (n) => 97 - (+n.slice(0, 8) % 97) === +n.slice(8) },
+  BG: { format: /^\d{9,10}$/ },
+  CY: { format: /^\d{8}[A-Z]$/ },
+  CZ: { format: /^\d{8,10}$/ },
+  DE: { format: /^\d{9}$/, check: germany },
+  DK: { format: /^\d{8}$/, check: (n) => weightedSum(n, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0 },
+  EE: { format: /^\d{9}$/ },
+  EL: { format: /^\d{9}$/ },
+  ES: { format: /^[A-Z0-9]\d{7}[A-Z0-9]$/ },
+  FI: { format: /^\d{8}$/, check: finland },
+  FR: { format: /^[0-9A-Z]{2}\d{9}$/, check: france },
+  HR: { format: /^\d{11}$/ },
+  HU: { format: /^\d{8}$/ },
+  IE: { format: /^\d[0-9A-Z+*]\d{5}[A-Z]{1,2}$/ },
+  IT: { format: /^\d{11}$/, check: luhn },
+  LT: { format: /^(\d{9}|\d{12})$/ },
+  LU: { format: /^\d{8}$/, check: (n) => +n.slice(0, 6) % 89 === +n.slice(6) },
+  LV: { format: /^\d{11}$/ },
+  MT: { format: /^\d{8}$/ },
+  NL: { format: /^\d{9}B\d{2}$/, check: netherlands },
+  PL: { format: /^\d{10}$/, check: (n) => weightedSum(n, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === +n[9] },
+  PT: { format: /^\d{9}$/, check: portugal },
+  RO: { format: /^\d{2,10}$/ },
+  SE: { format: /^\d{10}01$/, check: (n) => luhn(n.slice(0, 10)) },
+  SI: { format: /^\d{8}$/ },
+  SK: { format: /^\d{10}$/, check: (n) => +n % 11 === 0 },
+  // United Kingdom, and Northern Ireland for goods
+  GB: { format: /^(\d{9}|\d{12})$/, check: unitedKingdom },
+  XI: { format: /^(\d{9}|\d{12})$/, check: unitedKingdom },
+};
+
+// EU and UK VAT numbers with their two-letter prefix, e.g. DE136695976
+export function isValidVatId(id: string): boolean {
+  const rule = vatRules[id.slice(0, 2)];
+  const number = id.slice(2);
+  return !!rule && rule.format.test(number) && (rule.check?.(number) ?? true);
+}
+
+// Australian Business Number: 11 digits whose weighted sum, after taking one
+// from the first digit, is a multiple of 89
+export function isValidAbn(abn: string): boolean {
+  if (!/^\d{11}$/.test(abn)) return false;
+  const digits = String(+abn[0] - 1) + abn.slice(1);
+  return weightedSum(digits, [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]) % 89 === 0;
+}
+
+// Indian GST number: state code, PAN, entity number, "Z" and a base-36 check character
+export function isValidGstin(gstin: string): boolean {
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) return false;
+  const chars = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = chars.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return chars[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+function austria(n: string): boolean {
+  const digits = n.slice(1);
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    const value = +digits[i] * (i % 2 === 0 ? 1 : 2);
+    sum += value > 9 ? value - 9 : value;
+  }
+  return (10 - ((sum + 4) % 10)) % 10 === +digits[7];
+}
+
+// ISO 7064 MOD 11,10
+function germany(n: string): boolean {
+  let product = 10;
+  for (let i = 0; i < 8; i++) {
+    const sum = (+n[i] + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+  return (11 - product) % 10 === +n[8];
+}
+
+function finland(n: string): boolean {
+  const remainder = weightedSum(n, [7, 9, 10, 5, 8, 4, 2]) % 11;
+  return remainder !== 1 && (remainder === 0 ? 0 : 11 - remainder) === +n[7];
+}
+
+// Numeric keys are derived from the SIREN; keys with letters can't be checked offline
+function france(n: string): boolean {
+  const key = n.slice(0, 2);
+  if (!/^\d{2}$/.test(key)) return true;
+  return (12 + 3 * (+n.slice(2) % 97)) % 97 === +key;
+}
+
+// Numbers issued before 2020 use a mod 11 check; newer ones are checked like an IBAN
+function netherlands(n: string): boolean {
+  return weightedSum(n, [9, 8, 7, 6, 5, 4, 3, 2]) % 11 === +n[8] || mod97(`NL${n}`) === 1;
+}
+
+function portugal(n: string): boolean {
+  const check = 11 - (weightedSum(n, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+  return (check > 9 ? 0 : check) === +n[8];
+}
+
+function unitedKingdom(n: string): boolean {
+  const total = weightedSum(n, [8, 7, 6, 5, 4, 3, 2]) + +n.slice(7, 9);
+  return total % 97 === 0 || (total + 55) % 97 === 0;
+}
+
+export function luhn(n: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < n.length; i++) {
+    let digit = +n[n.length - 1 - i];
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function weightedSum(digits: string, weights: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * +digits[i], 0);
+}
+
+// Letters count as 10 to 35, as in IBANs
+export function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + +digit) % 97;
+  }
+  return remainder;
+}
@@ -0,0 +1,108 @@
+import { findWords } from "./geometry.js";
+import type { Confidence, ExtractedData, FieldValue, PatternValue, Patterns, TextLine } from "./types.js";
+
+// Fills in a score for every pattern value and template field the provider
+// did not score itself. Values read by the OCR engine take the confidence of
+// their least certain word. Anything else starts at 0.9 and is halved for each
+// check it fails: appearing in the extracted text, and being readable as its
+// type (a pattern value that normalizes, a money field with a currency code).
+export function withConfidence(data: ExtractedData): ExtractedData {
+  const scored = data.confidence;
+  const confidence: Confidence = { patterns: {} };
+
+  for (const [key, values] of Object.entries(data.patterns) as [keyof Patterns, PatternValue[] | undefined][]) {
+    if (!values?.length) continue;
+    confidence.patterns[key] = Object.fromEntries(
+      values.map(({ raw, normalized }) => [
+        raw,
+        scored?.patterns[key]?.[raw] ??
+          ocrScore(data.lines, raw) ??
+          checkScore(data.text, raw, normalized !== null),
+      ])
+    );
+  }
+
+  for (const [name, value] of Object.entries(data.fields ?? {})) {
+    if (value === null) continue;
+    const texts = fieldTexts(value);
+    confidence.fields ??= {};
+    confidence.fields[name] =
+      scored?.fields?.[name] ??
+      (texts.length === 1 ? ocrScore(data.lines, texts[0]) : undefined) ??
+      checkScore(data.text, texts, isPlausible(value));
+  }
+
+  return { ...data, confidence };
+}
+
+// Scores of merged parts of one document, such as its pages or tiles. A
+// pattern keeps its best score, and a field the score of the part its value
+// was taken from.
+export function mergeConfidence(parts: ExtractedData[]): Confidence | undefined {
+  if (!parts.some((part) => part.confidence)) return undefined;
+
+  const merged: Confidence = { patterns: {} };
+  for (const part of parts) {
+    for (const [key, scores] of Object.entries(part.confidence?.patterns ?? {}) as [keyof Patterns, Record<string, number>][]) {
+      const target = (merged.patterns[key] ??= {});
+      for (const [value, score] of Object.entries(scores)) {
+        target[value] = Math.max(target[value] ?? 0, score);
+      }
+    }
+  }
+
+  const taken = new Set<string>();
+  for (const part of parts) {
+    for (const [name, value] of Object.entries(part.fields ?? {})) {
+      if (value === null || taken.has(name)) continue;
+      taken.add(name);
+      const score = part.confidence?.fields?.[name];
+      if (score !== undefined) {
+        merged.fields ??= {};
+        merged.fields[name] = score;
+      }
+    }
+  }
+  return merged;
+}
+
+// Score of a value recognized in the final text, such as a custom pattern's
+export function valueConfidence(data: ExtractedData, raw: string, plausible: boolean): number {
+  return ocrScore(data.lines, raw) ?? checkScore(data.text, raw, plausible);
+}
+
+function ocrScore(lines: TextLine[] | undefined, value: string): number | undefined {
+  const scores = findWords(lines ?? [], value)
+    .map((words) => words.map((word) => word.confidence))
+    .filter((confidences): confidences is number[] => confidences.every((score) => score !== undefined))
+    .map((confidences) => Math.min(...confidences));
+  return scores.length ? Math.max(...scores) : undefined;
+}
+
+function checkScore(text: string, values: string | string[], plausible: boolean): number {
+  const haystack = compact(text);
+  const found = [values].flat().every((value) => haystack.includes(compact(value)));
+  return 0.9 * (found ? 1 : 0.5) * (plausible ? 1 : 0.5);
+}
+
+// The parts of a field value that should appear in the document text. Dates
+// are normalized by the template, so only their well-formedness is checked.
+function fieldTexts(value: Exclude<FieldValue, null>): string[] {
+  if (typeof value === "string") return /^\d{4}-\d{2}-\d{2}$/.test(value) ? [] : [value];
+  if (typeof value === "number") return [String(value)];
+  if (typeof value === "boolean") return [];
+  if ("amount" in value) return [String(value.amount)];
+  return [...value.headers, ...value.rows.flat()].filter(Boolean);
+}
+
+function isPlausible(value: Exclude<FieldValue, null>): boolean {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) return !Number.isNaN(Date.parse(value));
+  if (typeof value === "number") return Number.isFinite(value);
+  if (typeof value === "object" && "amount" in value) return Number.isFinite(value.amount) && /^[A-Z]{3}$/.test(value.currency);
+  return true;
+}
+
+// Amounts such as 1,234.50 are compared without separators or trailing zeros
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[\s,]+/g, "").replace(/(\.\d*?)0+\b/g, "$1").replace(/\.(?!\d)/g, "");
+}
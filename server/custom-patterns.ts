@@ -0,0 +1,241 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import vm from "vm";
+import safeRegex from "safe-regex2";
+import { z } from "zod";
+import { isValidIban, isValidVatId, luhn, mod97 } from "./checksums.js";
+import { valueConfidence } from "./confidence.js";
+import { createJsonStore } from "./json-store.js";
+import { normalizeAmount, normalizeDate } from "./normalize.js";
+import type { CustomNormalizer, CustomPattern, CustomValidator, ExtractedData, PatternValue } from "./types.js";
+
+export const customPatternInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Pattern name is required").max(60),
+    description: z.string().trim().max(500).optional(),
+    regex: z.string().min(1, "Regular expression is required").max(500),
+    flags: z
+      .string()
+      .regex(/^(?!.*(.).*\1)[imsu]*$/, "Flags may only be i, m, s and u, each at most once")
+      .default(""),
+    validator: z.enum(["luhn", "mod97", "iban", "vat_id"]).optional(),
+    normalizer: z.enum(["uppercase", "lowercase", "compact", "digits", "date", "amount", "format"]).optional(),
+    replacement: z.string().max(200).optional(),
+  })
+  .superRefine((input, ctx) => {
+    try {
+      new RegExp(input.regex, input.flags);
+    } catch (error) {
+      ctx.addIssue({ code: "custom", path: ["regex"], message: (error as Error).message });
+      return;
+    }
+    // Nested quantifiers such as (\w+\s?)+ can take exponential time on
+    // text that almost matches; matching is time-limited as well, since not
+    // every slow pattern is caught here
+    if (!safeRegex(input.regex)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["regex"],
+        message: "The regular expression could take too long to match, avoid repeating a group that itself repeats",
+      });
+      return;
+    }
+    if (new RegExp(input.regex, input.flags).test("")) {
+      ctx.addIssue({ code: "custom", path: ["regex"], message: "The regular expression must not match empty text" });
+    }
+    if (input.normalizer === "format" && !input.replacement) {
+      ctx.addIssue({ code: "custom", path: ["replacement"], message: "The format normalizer needs a replacement" });
+    }
+  });
+
+export type CustomPatternInput = z.infer<typeof customPatternInputSchema>;
+
+const store = createJsonStore<CustomPattern[]>(
+  path.resolve(process.env.DATA_DIR || "data", "custom-patterns.json"),
+  () => [],
+  { pretty: true }
+);
+
+export class DuplicatePatternError extends Error {
+  constructor(name: string) {
+    super(`A pattern named "${name}" already exists`);
+    this.name = "DuplicatePatternError";
+  }
+}
+
+export async function listCustomPatterns(workspace: string): Promise<CustomPattern[]> {
+  return (await store.read()).filter((pattern) => pattern.workspace === workspace);
+}
+
+export async function createCustomPattern(workspace: string, input: CustomPatternInput): Promise<CustomPattern> {
+  return store.update((all) => {
+    assertUniqueName(all, workspace, input.name);
+
+    const now = new Date().toISOString();
+    const pattern: CustomPattern = { id: randomUUID(), workspace, ...input, createdAt: now, updatedAt: now };
+    all.push(pattern);
+    return pattern;
+  });
+}
+
+export async function updateCustomPattern(
+  workspace: string,
+  id: string,
+  input: CustomPatternInput
+): Promise<CustomPattern | undefined> {
+  return store.update((all) => {
+    const index = all.findIndex((pattern) => pattern.id === id && pattern.workspace === workspace);
+    if (index === -1) return undefined;
+    assertUniqueName(all, workspace, input.name, id);
+
+    const { name, description, regex, flags, validator, normalizer, replacement } = input;
+    all[index] = {
+      ...all[index],
+      name,
+      description,
+      regex,
+      flags,
+      validator,
+      normalizer,
+      replacement,
+      updatedAt: new Date().toISOString(),
+    };
+    return all[index];
+  });
+}
+
+export async function deleteCustomPattern(workspace: string, id: string): Promise<boolean> {
+  return store.update((all) => {
+    const index = all.findIndex((pattern) => pattern.id === id && pattern.workspace === workspace);
+    if (index === -1) return false;
+
+    all.splice(index, 1);
+    return true;
+  });
+}
+
+function assertUniqueName(all: CustomPattern[], workspace: string, name: string, id?: string) {
+  const taken = all.some(
+    (pattern) => pattern.workspace === workspace && pattern.id !== id && pattern.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) throw new DuplicatePatternError(name);
+}
+
+const validators: Record<CustomValidator, (value: string) => boolean> = {
+  luhn: (value) => {
+    const digits = value.replace(/\D/g, "");
+    return digits.length > 1 && luhn(digits);
+  },
+  mod97: (value) => {
+    const chars = value.replace(/[^0-9A-Za-z]/g, "").toUpperCase();
+    return chars.length > 2 && mod97(chars) === 1;
+  },
+  iban: (value) => isValidIban(value.replace(/\s+/g, "").toUpperCase()),
+  vat_id: (value) => isValidVatId(value.replace(/[\s.-]+/g, "").toUpperCase().replace(/^GR/, "EL")),
+};
+
+function normalize(pattern: CustomPattern, { raw, formatted }: PatternMatch): PatternValue["normalized"] {
+  const normalizers: Record<CustomNormalizer, () => PatternValue["normalized"]> = {
+    uppercase: () => raw.toUpperCase(),
+    lowercase: () => raw.toLowerCase(),
+    compact: () => raw.replace(/[\s.-]+/g, ""),
+    digits: () => raw.replace(/\D/g, "") || null,
+    date: () => normalizeDate(raw),
+    amount: () => normalizeAmount(raw),
+    format: () => formatted ?? raw,
+  };
+  return pattern.normalizer ? normalizers[pattern.normalizer]() : raw;
+}
+
+// Longest text a pattern is run on, and how long one pattern may take on a
+// document before it is given up on
+const MAX_TEXT_LENGTH = 100_000;
+const matchTimeoutMs = () => parseInt(process.env.CUSTOM_PATTERN_TIMEOUT_MS || "100", 10);
+
+interface PatternMatch {
+  raw: string;
+  // The match rewritten with the pattern's replacement, for the format normalizer
+  formatted?: string;
+}
+
+// Matching runs in its own V8 context so it can be interrupted: a pattern that
+// backtracks catastrophically times out instead of blocking the server. Only
+// the match itself is rewritten, so $1 and $<name> refer to its groups.
+const matchContext = vm.createContext({ input: null });
+const matchScript = new vm.Script(`(() => {
+  const { text, source, flags, replacement } = input;
+  const regex = new RegExp(source, flags + "g");
+  const matches = [];
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    if (match[0] === "") {
+      regex.lastIndex++;
+      continue;
+    }
+    matches.push({
+      raw: (match.groups?.value ?? match[0]).trim(),
+      formatted: replacement === undefined ? undefined : match[0].replace(new RegExp(source, flags), replacement),
+    });
+  }
+  return matches;
+})()`);
+
+function matchPattern(text: string, pattern: CustomPattern): PatternMatch[] {
+  matchContext.input = {
+    text: text.slice(0, MAX_TEXT_LENGTH),
+    source: pattern.regex,
+    flags: pattern.flags,
+    replacement: pattern.normalizer === "format" ? (pattern.replacement ?? "$&") : undefined,
+  };
+  try {
+    return matchScript.runInContext(matchContext, { timeout: matchTimeoutMs() }) as PatternMatch[];
+  } catch (error) {
+    console.warn(`Custom pattern "${pattern.name}" was skipped:`, (error as Error).message);
+    return [];
+  } finally {
+    matchContext.input = null;
+  }
+}
+
+// Values of one custom pattern, in document order and without repeats. A
+// value that fails the pattern's validator is kept with a null normalized
+// form, like a built-in pattern that can't be read as its type. Patterns that
+// take too long find nothing.
+export function findCustomValues(text: string, pattern: CustomPattern): PatternValue[] {
+  const values: PatternValue[] = [];
+  const seen = new Set<string>();
+
+  for (const match of matchPattern(text, pattern)) {
+    if (!match.raw || seen.has(match.raw)) continue;
+    seen.add(match.raw);
+
+    const valid = pattern.validator ? validators[pattern.validator](match.raw) : true;
+    values.push({ raw: match.raw, normalized: valid ? normalize(pattern, match) : null, type: "custom" });
+  }
+  return values;
+}
+
+// Recognizes the custom patterns in a document and each of its pages. They
+// run on the final text rather than in the provider, so editing them never
+// invalidates cached results.
+export function withCustomPatterns<T extends ExtractedData & { pages?: ExtractedData[] }>(
+  data: T,
+  customPatterns: CustomPattern[] | undefined
+): T {
+  if (!customPatterns?.length) return data;
+
+  const apply = <D extends ExtractedData>(part: D): D => {
+    const custom: Record<string, PatternValue[]> = {};
+    const scores: Record<string, Record<string, number>> = {};
+    for (const pattern of customPatterns) {
+      const values = findCustomValues(part.text, pattern);
+      if (!values.length) continue;
+      custom[pattern.name] = values;
+      scores[pattern.name] = Object.fromEntries(
+        values.map(({ raw, normalized }) => [raw, valueConfidence(part, raw, normalized !== null)])
+      );
+    }
+    return { ...part, custom, confidence: part.confidence && { ...part.confidence, custom: scores } };
+  };
+
+  return { ...apply(data), pages: data.pages?.map(apply) };
+}
@@ -0,0 +1,45 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "./schema.js";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const migrationsFolder = fileURLToPath(new URL("./migrations", import.meta.url));
+
+// DATABASE_URL connects to Postgres, such as the Supabase project's database.
+// Without it, an embedded Postgres (PGlite) keeps the database in
+// DATA_DIR/db, so the app runs without a database server.
+async function connect(): Promise<Database> {
+  const url = process.env.DATABASE_URL;
+  if (url) {
+    const { default: postgres } = await import("postgres");
+    const { drizzle } = await import("drizzle-orm/postgres-js");
+    const { migrate } = await import("drizzle-orm/postgres-js/migrator");
+    const db = drizzle(postgres(url, { max: parseInt(process.env.DATABASE_POOL_SIZE || "10", 10) }), { schema });
+    await migrate(db, { migrationsFolder });
+    return db;
+  }
+
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+  const dir = path.resolve(process.env.DATA_DIR || "data", "db");
+  await fs.mkdir(dir, { recursive: true });
+  const db = drizzle(new PGlite(dir), { schema });
+  await migrate(db, { migrationsFolder });
+  return db;
+}
+
+let database: Promise<Database> | null = null;
+
+// Connects and applies pending migrations on first use
+export function getDb(): Promise<Database> {
+  database ??= connect().catch((error) => {
+    // Let the next call try again, e.g. once the database is reachable
+    database = null;
+    throw error;
+  });
+  return database;
+}
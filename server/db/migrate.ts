@@ -0,0 +1,12 @@
+import "dotenv/config";
+import { getDb } from "./index.js";
+
+// Applies pending migrations and exits; the server also applies them on start
+try {
+  await getDb();
+  console.log("Database is up to date");
+  process.exit(0);
+} catch (error) {
+  console.error("Migration failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,66 @@
+CREATE TABLE "extracted_files" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"extraction_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"filename" text NOT NULL,
+	"status" text NOT NULL,
+	"text" text,
+	"result" jsonb,
+	"error" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "extraction_tags" (
+	"extraction_id" uuid NOT NULL,
+	"tag_id" integer NOT NULL,
+	CONSTRAINT "extraction_tags_extraction_id_tag_id_pk" PRIMARY KEY("extraction_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "extractions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"workspace" text NOT NULL,
+	"provider" text NOT NULL,
+	"template_id" text,
+	"requirements" text,
+	"file_count" integer NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"cost" double precision,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "patterns" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"name" text NOT NULL,
+	"raw" text NOT NULL,
+	"normalized" jsonb,
+	"confidence" real
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "extracted_files" ADD CONSTRAINT "extracted_files_extraction_id_extractions_id_fk" FOREIGN KEY ("extraction_id") REFERENCES "public"."extractions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "extraction_tags" ADD CONSTRAINT "extraction_tags_extraction_id_extractions_id_fk" FOREIGN KEY ("extraction_id") REFERENCES "public"."extractions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "extraction_tags" ADD CONSTRAINT "extraction_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "extractions" ADD CONSTRAINT "extractions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patterns" ADD CONSTRAINT "patterns_file_id_extracted_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."extracted_files"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "extracted_files_extraction_idx" ON "extracted_files" USING btree ("extraction_id","position");--> statement-breakpoint
+CREATE INDEX "extractions_user_created_idx" ON "extractions" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "patterns_file_idx" ON "patterns" USING btree ("file_id");--> statement-breakpoint
+CREATE INDEX "patterns_type_idx" ON "patterns" USING btree ("type");--> statement-breakpoint
+CREATE UNIQUE INDEX "tags_user_name_idx" ON "tags" USING btree ("user_id","name");
\ No newline at end of file
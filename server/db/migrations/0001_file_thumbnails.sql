@@ -0,0 +1,2 @@
+ALTER TABLE "extracted_files" ADD COLUMN "thumbnail" text;--> statement-breakpoint
+ALTER TABLE "extracted_files" ADD COLUMN "document_type" text;
\ No newline at end of file
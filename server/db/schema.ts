@@ -0,0 +1,123 @@
+import {
+  doublePrecision,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  real,
+  serial,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import type { Amount, DocumentType, ExtractionResult, FileError, FileStatus, PatternType } from "../types.js";
+
+// Persisted extraction history. Change a table here, then run
+// `npm run db:generate` to add a migration to db/migrations.
+
+// Everyone who has extracted something, keyed by their session's subject
+export const users = pgTable("users", {
+  id: text("id").primaryKey(),
+  email: text("email"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// One extraction request: the files uploaded together and the settings they
+// were extracted with
+export const extractions = pgTable(
+  "extractions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    workspace: text("workspace").notNull(),
+    provider: text("provider").notNull(),
+    templateId: text("template_id"),
+    requirements: text("requirements"),
+    fileCount: integer("file_count").notNull(),
+    promptTokens: integer("prompt_tokens").notNull().default(0),
+    completionTokens: integer("completion_tokens").notNull().default(0),
+    // Estimated USD, absent when no model used was priced
+    cost: doublePrecision("cost"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("extractions_user_created_idx").on(table.userId, table.createdAt)]
+);
+
+// Outcome for each file of an extraction, in upload order. Extracted files
+// keep their whole result; failed and skipped ones their error.
+export const extractedFiles = pgTable(
+  "extracted_files",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    extractionId: uuid("extraction_id")
+      .notNull()
+      .references(() => extractions.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    filename: text("filename").notNull(),
+    status: text("status").$type<FileStatus>().notNull(),
+    text: text("text"),
+    result: jsonb("result").$type<ExtractionResult>(),
+    error: jsonb("error").$type<FileError>(),
+    // Small WebP of the upload (its first page for PDFs), as a data URL
+    thumbnail: text("thumbnail"),
+    documentType: text("document_type").$type<DocumentType>(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("extracted_files_extraction_idx").on(table.extractionId, table.position)]
+);
+
+// Every recognized value of an extracted file, so values can be searched and
+// summed across documents. name is the Patterns key, such as "amounts", or
+// the custom pattern's name.
+export const patterns = pgTable(
+  "patterns",
+  {
+    id: serial("id").primaryKey(),
+    fileId: uuid("file_id")
+      .notNull()
+      .references(() => extractedFiles.id, { onDelete: "cascade" }),
+    type: text("type").$type<PatternType>().notNull(),
+    name: text("name").notNull(),
+    raw: text("raw").notNull(),
+    normalized: jsonb("normalized").$type<string | Amount | null>(),
+    confidence: real("confidence"),
+  },
+  (table) => [index("patterns_file_idx").on(table.fileId), index("patterns_type_idx").on(table.type)]
+);
+
+// A user's tags; names are unique per user
+export const tags = pgTable(
+  "tags",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+  },
+  (table) => [uniqueIndex("tags_user_name_idx").on(table.userId, table.name)]
+);
+
+export const extractionTags = pgTable(
+  "extraction_tags",
+  {
+    extractionId: uuid("extraction_id")
+      .notNull()
+      .references(() => extractions.id, { onDelete: "cascade" }),
+    tagId: integer("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.extractionId, table.tagId] })]
+);
+
+export type User = typeof users.$inferSelect;
+export type Extraction = typeof extractions.$inferSelect;
+export type ExtractedFile = typeof extractedFiles.$inferSelect;
+export type PatternRow = typeof patterns.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
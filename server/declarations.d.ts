@@ -0,0 +1,25 @@
+// Type declarations for dependencies that ship without them.
+
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+  }
+  export default function decode(input: { buffer: ArrayBufferLike | Buffer }): Promise<DecodedImage>;
+}
+
+declare module "bmp-js" {
+  interface BmpImage {
+    width: number;
+    height: number;
+    data: Buffer;
+  }
+  const bmp: { decode(buffer: Buffer): BmpImage };
+  export default bmp;
+}
+
+declare module "@tesseract.js-data/eng" {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}
@@ -0,0 +1,29 @@
+import type { DocumentType, ExtractionResult } from "./types.js";
+
+// Phrases typical of each kind of document. The kind with the most phrases in
+// the text wins; one phrase is enough when no other kind has any.
+const keywords: Record<Exclude<DocumentType, "business_card" | "other">, RegExp[]> = {
+  invoice: [/\binvoice\b/, /\bbill to\b/, /\bdue date\b/, /\bpayment terms\b/, /\bamount due\b/, /\bpurchase order\b/, /\bfactura\b|\brechnung\b|\bfacture\b/],
+  receipt: [/\breceipt\b/, /\bsubtotal\b/, /\bcash\b/, /\bchange\b/, /\bthank you\b/, /\bcashier\b/, /\bvisa\b|\bmastercard\b|\bdebit\b/],
+  bank_statement: [/\bstatement\b/, /\bopening balance\b/, /\bclosing balance\b/, /\baccount (?:number|no)\b/, /\bwithdrawals?\b/, /\bdeposits?\b/],
+  id_document: [/\bpassport\b/, /\bdate of birth\b/, /\bnationality\b/, /\bdriver'?s? licen[cs]e\b/, /\bidentity card\b/, /\bexpiry\b|\bdate of expiration\b/],
+  contract: [/\bagreement\b/, /\bhereby\b/, /\bparties\b/, /\bterms and conditions\b/, /\bwhereas\b/, /\bsignature\b/, /\bgoverning law\b/],
+  letter: [/^\s*dear\b/m, /\byours (?:sincerely|faithfully|truly)\b/, /\bkind regards\b|\bbest regards\b/, /\bre:/],
+};
+
+// Guesses what kind of document a result is from its text and patterns
+export function detectDocumentType(result: ExtractionResult): DocumentType {
+  const text = result.text.toLowerCase();
+
+  const scores = Object.entries(keywords)
+    .map(([type, phrases]) => ({ type: type as DocumentType, score: phrases.filter((phrase) => phrase.test(text)).length }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score > 0 && best.score > runnerUp.score) return best.type;
+
+  // A few short lines with contact details and no money
+  const { emails, phoneNumbers, amounts } = result.patterns;
+  if (text.length < 400 && (emails?.length || phoneNumbers?.length) && !amounts?.length) return "business_card";
+
+  return best.score > 0 ? best.type : "other";
+}
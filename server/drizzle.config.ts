@@ -0,0 +1,8 @@
+import { defineConfig } from "drizzle-kit";
+
+// Used by `npm run db:generate` to write migrations for changes to db/schema.ts
+export default defineConfig({
+  dialect: "postgresql",
+  schema: "./db/schema.ts",
+  out: "./db/migrations",
+});
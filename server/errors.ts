@@ -0,0 +1,81 @@
+import type { TokenUsage } from "./types.js";
+
+// HTTP status to answer with when every file of a request fails with a code.
+export const errorStatus: Record<string, number> = {
+  provider_error: 502,
+  rate_limited: 429,
+  quota_exceeded: 402,
+  invalid_api_key: 502,
+  content_refused: 422,
+  timeout: 504,
+  provider_unavailable: 503,
+  malformed_output: 502,
+  output_truncated: 502,
+};
+
+// Errors raised by extraction providers. Each carries a stable code that is
+// returned to clients and whether the call is worth retrying.
+export class ProviderError extends Error {
+  status: number;
+  // Tokens already paid for when the call failed, such as for a reply that
+  // was cut off or malformed
+  usage?: TokenUsage;
+
+  constructor(
+    message: string,
+    public code = "provider_error",
+    public retryable = false
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.status = errorStatus[code] ?? 502;
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(public retryAfter?: number) {
+    super(
+      retryAfter
+        ? `Provider rate limited, retry in ${Math.ceil(retryAfter)}s`
+        : "Provider rate limited, retry shortly",
+      "rate_limited",
+      true
+    );
+  }
+}
+
+export class AuthenticationError extends ProviderError {
+  constructor(message = "Provider API key invalid") {
+    super(message, "invalid_api_key");
+  }
+}
+
+export class ContentPolicyError extends ProviderError {
+  constructor(message = "Provider refused to analyze this image") {
+    super(message, "content_refused");
+  }
+}
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor() {
+    super("Provider timed out", "timeout", true);
+  }
+}
+
+export class ProviderUnavailableError extends ProviderError {
+  constructor(message = "Provider is unavailable, try again later") {
+    super(message, "provider_unavailable", true);
+  }
+}
+
+export class MalformedOutputError extends ProviderError {
+  constructor(message = "Provider returned malformed output") {
+    super(message, "malformed_output");
+  }
+}
+
+export class TruncatedOutputError extends ProviderError {
+  constructor() {
+    super("Provider output was cut off at the token limit", "output_truncated");
+  }
+}
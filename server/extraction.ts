@@ -0,0 +1,433 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { createOpenAIProvider } from "./openai.js";
+import { createFixtureProvider } from "./fixture.js";
+import { createTesseractProvider, recognize } from "./tesseract.js";
+import { locateMatches, offsetLines } from "./geometry.js";
+import { createLimiter, mapInOrder } from "./pool.js";
+import { mergePatterns } from "./patterns.js";
+import { mergeConfidence, withConfidence } from "./confidence.js";
+import { withCustomPatterns } from "./custom-patterns.js";
+import { renderPdfPages } from "./pdf.js";
+import { detectFileType, toProviderImage, UnreadableFileError, type FileType } from "./formats.js";
+import { cropTiles, needsTiling, planTiles, stitchText, tilingEnabled } from "./tiling.js";
+import {
+  defaultPreprocessSteps,
+  maxDimension,
+  preprocessImage,
+  preprocessSteps,
+  type PreprocessedImage,
+  type PreprocessStep,
+} from "./preprocess.js";
+import { ProviderError, RateLimitError, TruncatedOutputError } from "./errors.js";
+import { createCacheFromEnv, type ResultCache } from "./cache.js";
+import { addUsage } from "./usage.js";
+import type {
+  ExtractedData,
+  ExtractedTable,
+  ExtractionProvider,
+  ExtractionResult,
+  ExtractOptions,
+  FileResult,
+  LayoutBlock,
+  PageResult,
+  TilingInfo,
+  TokenUsage,
+  UploadedImage,
+} from "./types.js";
+
+const providerFactories: Record<string, () => ExtractionProvider> = {
+  openai: createOpenAIProvider,
+  tesseract: createTesseractProvider,
+  fixture: createFixtureProvider,
+};
+
+const providers = new Map<string, ExtractionProvider>();
+
+let cache: ResultCache | undefined | null = null;
+
+// Part of every cache key. Bump it when the shape of ExtractedData changes so
+// results stored in the old shape are never served.
+const RESULT_FORMAT = "2";
+
+function getCache(): ResultCache | undefined {
+  if (cache === null) {
+    cache = createCacheFromEnv();
+  }
+  return cache;
+}
+
+// EXTRACTION_PROVIDER picks the implementation used when a request doesn't
+// choose one. Without it we fall back to local OCR when no OpenAI key is
+// configured, so deployments without network access still extract real text.
+export function defaultProviderName(): string {
+  if (process.env.EXTRACTION_PROVIDER) {
+    return process.env.EXTRACTION_PROVIDER;
+  }
+  return process.env.OPENAI_API_KEY ? "openai" : "tesseract";
+}
+
+export function providerNames(): string[] {
+  return Object.keys(providerFactories);
+}
+
+export function getProvider(name = defaultProviderName()): ExtractionProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown extraction provider: ${name}`);
+    }
+    provider = withLimits(factory());
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Number of files from one batch that are analyzed at the same time, never more
+// than the provider allows. Calls are still subject to the provider's limiter,
+// which is shared by all batches.
+export function batchConcurrency(providerName?: string): number {
+  const provider = getProvider(providerName);
+  const configured = parseInt(process.env.EXTRACTION_CONCURRENCY || "4", 10);
+  return Math.min(configured, provider.limits?.concurrency ?? configured);
+}
+
+function withLimits(provider: ExtractionProvider): ExtractionProvider {
+  if (!provider.limits) return provider;
+
+  const limiter = createLimiter(provider.limits);
+  return {
+    ...provider,
+    analyze: (base64Image, mediaType, options) =>
+      limiter.run(() => provider.analyze(base64Image, mediaType, options)),
+  };
+}
+
+export async function analyzeImage(
+  base64Image: string,
+  mediaType: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedData> {
+  return getProvider(options.provider).analyze(base64Image, mediaType, options);
+}
+
+// Results are cached by a hash of the image bytes and the provider's
+// fingerprint (model and effective prompt), so re-uploading the same image
+// with the same settings skips the provider call.
+async function analyzeCached(
+  image: Buffer,
+  mediaType: string,
+  options: ExtractOptions
+): Promise<{ data: ExtractedData; cache?: "hit" | "miss" }> {
+  const analyze = async () => {
+    const data = await analyzeImage(image.toString("base64"), mediaType, options);
+    return withConfidence(await withGeometry(image, mediaType, data));
+  };
+
+  const resultCache = getCache();
+  if (!resultCache) {
+    return { data: await analyze() };
+  }
+
+  const key = createHash("sha256")
+    .update(RESULT_FORMAT)
+    .update(image)
+    .update(getProvider(options.provider).fingerprint(options))
+    .update(wordBoxesEnabled() ? "\nboxes" : "")
+    .digest("hex");
+
+  const cached = await resultCache.get(key).catch(logCacheError);
+  if (cached) {
+    // The tokens were paid for by the request that filled the cache
+    const usage = cached.usage && { model: cached.usage.model, promptTokens: 0, completionTokens: 0, cost: 0 };
+    return { data: { ...cached, usage }, cache: "hit" };
+  }
+
+  const data = await analyze();
+  await resultCache.set(key, data).catch(logCacheError);
+  return { data, cache: "miss" };
+}
+
+// Locating text costs a local OCR pass per image, so it is opt-in
+function wordBoxesEnabled(): boolean {
+  return process.env.WORD_BOXES === "on";
+}
+
+// Adds line and word boxes and the position of each pattern match. Text from
+// providers that don't report positions is only located with local OCR when
+// WORD_BOXES=on. Failing to locate text never fails the extraction.
+async function withGeometry(image: Buffer, mediaType: string, data: ExtractedData): Promise<ExtractedData> {
+  let lines = data.lines;
+  if (!lines) {
+    if (!wordBoxesEnabled()) return data;
+    try {
+      lines = (await recognize(image, mediaType)).lines;
+    } catch (error) {
+      console.warn("Could not locate text on the image:", error);
+      return data;
+    }
+  }
+  return { ...data, lines, matches: locateMatches(lines, data.patterns) };
+}
+
+function detectType(file: UploadedImage): FileType {
+  const type = detectFileType(file.buffer);
+  if (!type) {
+    throw new UnreadableFileError(`Unsupported file type: ${file.mimetype}`, "unsupported_type");
+  }
+  return type;
+}
+
+// Turns an uploaded image into what the provider is sent: its format is
+// detected from its content, formats the provider cannot read are converted,
+// and the preprocessing steps are applied.
+export async function prepareImage(
+  file: UploadedImage,
+  steps?: PreprocessStep[]
+): Promise<PreprocessedImage> {
+  const type = detectType(file);
+  if (type === "application/pdf") {
+    throw new UnreadableFileError("Expected an image, got a PDF", "unsupported_type");
+  }
+  const image = await toProviderImage(file.buffer, type);
+  return preprocessImage(image.buffer, image.mediaType, steps);
+}
+
+export async function extractFile(file: UploadedImage, options: ExtractOptions = {}): Promise<ExtractionResult> {
+  const type = detectType(file);
+  if (type === "application/pdf") {
+    return extractPdf(file, options);
+  }
+
+  const converted = await toProviderImage(file.buffer, type);
+  // Metadata reports the stored size; tiles are planned on the upright image
+  const { width, height } = (await sharp(converted.buffer).metadata()).autoOrient;
+  const steps = options.preprocess ?? defaultPreprocessSteps();
+  if (needsTiling(width, height, steps.includes("resize") ? maxDimension() : undefined)) {
+    return extractTiled(file, converted, "size", options);
+  }
+
+  const image = await preprocessImage(converted.buffer, converted.mediaType, options.preprocess);
+  try {
+    const { data, cache } = await analyzeCached(image.buffer, image.mediaType, options);
+    return {
+      text: data.text,
+      patterns: data.patterns,
+      blocks: data.blocks,
+      fields: data.fields,
+      tables: data.tables,
+      lines: data.lines,
+      matches: data.matches,
+      confidence: data.confidence,
+      usage: data.usage,
+      templateId: options.template?.id,
+      filename: file.originalname,
+      cache,
+      preprocessing: image.steps,
+    };
+  } catch (error) {
+    if (error instanceof TruncatedOutputError && tilingEnabled() && height >= 512) {
+      console.warn(`Output for ${file.originalname} was truncated, retrying in tiles`);
+      const tiled = await extractTiled(file, converted, "truncated", options);
+      // The cut-off reply is paid for as well
+      return { ...tiled, usage: sumUsage([error, tiled]) };
+    }
+    throw error;
+  }
+}
+
+// Extracts an image strip by strip and stitches the text back together.
+// Preprocessing runs on the whole image, except downscaling which runs per
+// tile so tiles keep their detail.
+async function extractTiled(
+  file: UploadedImage,
+  converted: { buffer: Buffer; mediaType: string },
+  reason: TilingInfo["reason"],
+  options: ExtractOptions
+): Promise<ExtractionResult> {
+  const steps = options.preprocess ?? defaultPreprocessSteps();
+  const whole = await preprocessImage(
+    converted.buffer,
+    converted.mediaType,
+    steps.filter((step) => step !== "resize")
+  );
+  // preprocessImage leaves the EXIF orientation alone when not asked to rotate
+  const rotated = steps.includes("rotate") ? whole.buffer : await sharp(whole.buffer).rotate().toBuffer();
+  const { width = 0, height = 0 } = await sharp(rotated).metadata();
+
+  // A truncated image is split in two; half the text fits where all of it did not
+  const tiles = planTiles(width, height, reason === "truncated" ? Math.ceil(height * 0.55) : undefined);
+  const crops = await cropTiles(rotated, width, tiles);
+  const prepared = await mapInOrder(crops, batchConcurrency(options.provider), (crop) =>
+    preprocessImage(crop, whole.mediaType, steps.includes("resize") ? ["resize"] : [])
+  );
+  const analyzed = await mapInOrder(prepared, batchConcurrency(options.provider), (image) =>
+    analyzeCached(image.buffer, image.mediaType, options)
+  );
+  const parts = analyzed.map(({ data }) => data);
+
+  let text = parts[0].text;
+  const seams: number[] = [];
+  for (const part of parts.slice(1)) {
+    const stitched = stitchText(text, part.text);
+    text = stitched.text;
+    seams.push(stitched.matched);
+  }
+
+  // Each tile keeps the lines nearer to it than to its neighbour, so lines in
+  // an overlap are listed once
+  const lines = parts.every((part) => part.lines)
+    ? parts.flatMap((part, index) => {
+        const start = index === 0 ? 0 : (tiles[index].top + tiles[index - 1].top + tiles[index - 1].height) / 2;
+        const end = index === parts.length - 1 ? height : (tiles[index].top + tiles[index].height + tiles[index + 1].top) / 2;
+        return offsetLines(part.lines!, tiles[index].top, tiles[index].height, height).filter((line) => {
+          const middle = (line.box.y + line.box.height / 2) * height;
+          return middle >= start && middle < end;
+        });
+      })
+    : undefined;
+  const patterns = mergePatterns(parts.map((part) => part.patterns));
+
+  // Blocks in the overlap show up in both tiles
+  const blocks: LayoutBlock[] = [];
+  for (const block of parts.flatMap((part) => part.blocks ?? [])) {
+    if (!blocks.some((seen) => seen.type === block.type && seen.text === block.text)) {
+      blocks.push(block);
+    }
+  }
+
+  return {
+    text,
+    patterns,
+    blocks,
+    fields: mergeFields(parts),
+    tables: joinTables(parts),
+    lines,
+    matches: lines && locateMatches(lines, patterns),
+    confidence: mergeConfidence(parts),
+    usage: sumUsage(parts),
+    templateId: options.template?.id,
+    filename: file.originalname,
+    cache: combineCacheStatus(analyzed),
+    preprocessing: appliedSteps([whole, ...prepared]),
+    tiling: { reason, tiles, seams },
+  };
+}
+
+// PDFs are rendered to one image per page and each page is analyzed on its
+// own. The document's text, patterns, blocks, fields and tables combine all pages.
+async function extractPdf(file: UploadedImage, options: ExtractOptions): Promise<ExtractionResult> {
+  const images = await renderPdfPages(file.buffer);
+  const prepared = await mapInOrder(images, batchConcurrency(options.provider), (image) =>
+    preprocessImage(image, "image/png", options.preprocess)
+  );
+  const analyzed = await mapInOrder(prepared, batchConcurrency(options.provider), (image) =>
+    analyzeCached(image.buffer, image.mediaType, options)
+  );
+  const pages: PageResult[] = analyzed.map(({ data }, index) => ({ page: index + 1, ...data }));
+
+  return {
+    text: pages.map((page) => page.text).join("\n\n"),
+    patterns: mergePatterns(pages.map((page) => page.patterns)),
+    blocks: pages.flatMap((page) => page.blocks ?? []),
+    fields: mergeFields(pages),
+    tables: pages.flatMap((page) => page.tables ?? []),
+    confidence: mergeConfidence(pages),
+    usage: sumUsage(pages),
+    templateId: options.template?.id,
+    filename: file.originalname,
+    cache: combineCacheStatus(analyzed),
+    preprocessing: appliedSteps(prepared),
+    pages,
+  };
+}
+
+// Each template field takes the first value found in any part.
+function mergeFields(parts: ExtractedData[]): ExtractedData["fields"] {
+  let fields: ExtractedData["fields"];
+  for (const part of parts) {
+    for (const [name, value] of Object.entries(part.fields ?? {})) {
+      fields ??= {};
+      if (fields[name] == null) fields[name] = value;
+    }
+  }
+  return fields;
+}
+
+// A table cut by a seam shows up in both tiles. When a tile's first table has
+// the same header as the previous tile's last one, it continues that table and
+// only its rows not already seen in the overlap are added.
+function joinTables(parts: ExtractedData[]): ExtractedTable[] {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const tables: ExtractedTable[] = [];
+  for (const part of parts) {
+    for (const [index, table] of (part.tables ?? []).entries()) {
+      const last = tables[tables.length - 1];
+      if (index === 0 && last && last.headers.length > 0 && same(last.headers, table.headers)) {
+        const seen = last.rows.slice(-table.rows.length);
+        last.rows.push(...table.rows.filter((row) => !seen.some((candidate) => same(candidate, row))));
+      } else if (!tables.some((existing) => same(existing, table))) {
+        tables.push({ headers: table.headers, rows: [...table.rows] });
+      }
+    }
+  }
+  return tables;
+}
+
+function sumUsage(parts: { usage?: TokenUsage }[]): TokenUsage | undefined {
+  const usages = parts.flatMap((part) => (part.usage ? [part.usage] : []));
+  return usages.length ? addUsage(usages) : undefined;
+}
+
+function appliedSteps(images: PreprocessedImage[]): PreprocessStep[] {
+  return preprocessSteps.filter((step) => images.some((image) => image.steps.includes(step)));
+}
+
+// A document is a cache hit only if every part of it was.
+function combineCacheStatus(parts: { cache?: "hit" | "miss" }[]): "hit" | "miss" | undefined {
+  if (!parts[0]?.cache) return undefined;
+  return parts.every((part) => part.cache === "hit") ? "hit" : "miss";
+}
+
+function logCacheError(error: unknown): undefined {
+  console.warn("Result cache error:", error);
+  return undefined;
+}
+
+// Like extractFile, but never throws: files that cannot be processed come back
+// as "skipped" and provider errors as "failed".
+export async function processFile(file: UploadedImage, options: ExtractOptions = {}): Promise<FileResult> {
+  const filename = file.originalname;
+
+  if (file.buffer.length === 0) {
+    return { filename, status: "skipped", error: { code: "empty_file", message: "File is empty" } };
+  }
+
+  try {
+    return { status: "ok", ...withCustomPatterns(await extractFile(file, options), options.customPatterns) };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { filename, status: "skipped", error: { code: "cancelled", message: "Extraction was cancelled" } };
+    }
+    if (error instanceof UnreadableFileError) {
+      return { filename, status: "skipped", error: { code: error.code, message: error.message } };
+    }
+    if (error instanceof ProviderError) {
+      console.warn(`Error extracting text from ${filename}: ${error.message}`);
+      const retryAfter = error instanceof RateLimitError ? error.retryAfter : undefined;
+      return {
+        filename,
+        status: "failed",
+        error: { code: error.code, message: error.message, retryAfter },
+        usage: error.usage,
+      };
+    }
+    console.error(`Error extracting text from ${filename}:`, error);
+    return {
+      filename,
+      status: "failed",
+      error: { code: "extraction_failed", message: "Failed to extract text from image" },
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { findPatterns } from "./patterns.js";
+import { fillTemplate, toBlocks, toTables } from "./heuristics.js";
+import type { ExtractionProvider } from "./types.js";
+
+// Sample documents returned by the fixture provider. Each upload maps to one
+// of these by hashing the image, so the same file always yields the same result.
+const fixtures = [
+  `GREENLEAF MARKET
+1450 Harbor Street, Portland, OR 97209
+Tel: (503) 555-0142
+
+Receipt No: REF20931
+Date: 03/21/2024  14:32
+
+Organic Bananas        $2.49
+Whole Milk 1gal        $4.19
+Sourdough Loaf         $5.50
+Cold Brew Coffee       $3.75
+
+Subtotal              $15.93
+Tax                    $0.00
+TOTAL                 $15.93
+
+VISA ****4421
+Questions? support@greenleafmarket.com`,
+
+  `NORTHWIND SUPPLY CO.
+88 Industrial Way, Columbus, OH 43215
+billing@northwindsupply.com | +1 614-555-0198
+
+INVOICE
+Invoice No: INV-40217
+Invoice Date: Mar 4, 2024
+Due Date: Apr 3, 2024
+
+Bill To: Contoso Ltd, 500 Lake Avenue, Chicago, IL 60601
+
+Qty  Description              Unit      Total
+10   Pallet wrap (18in)       $24.00    $240.00
+4    Safety gloves (box)      $18.50    $74.00
+1    Freight                  $65.00    $65.00
+
+Total Due: 379.00 USD
+Payment reference: PO88231`,
+
+  `Dana Whitfield
+Senior Product Designer
+
+Brightline Studio
+230 Mission Boulevard, San Francisco, CA 94105
+
+dana.whitfield@brightline.studio
+Mobile: 415-555-0117
+Office: 415-555-0100
+
+Meeting booked: 11/08/2024`,
+];
+
+export function createFixtureProvider(): ExtractionProvider {
+  return {
+    name: "fixture",
+    fingerprint({ template }) {
+      return `fixture\n${JSON.stringify(template?.fields ?? null)}`;
+    },
+    async analyze(base64Image, _mediaType, { template }) {
+      const digest = createHash("sha256").update(base64Image).digest();
+      const text = fixtures[digest[0] % fixtures.length];
+      const blocks = toBlocks(text);
+
+      return {
+        text,
+        patterns: findPatterns(text),
+        blocks,
+        fields: template && fillTemplate(template, text, blocks),
+        tables: toTables(blocks),
+      };
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import sharp from "sharp";
+import decodeHeic from "heic-decode";
+import bmp from "bmp-js";
+
+export type FileType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/gif"
+  | "image/webp"
+  | "image/heic"
+  | "image/avif"
+  | "image/tiff"
+  | "image/bmp"
+  | "application/pdf";
+
+// Raised for uploads we cannot turn into something the provider reads.
+export class UnreadableFileError extends Error {
+  constructor(
+    message: string,
+    public code: "unsupported_type" | "unreadable_image" | "unreadable_pdf" | "too_many_pages"
+  ) {
+    super(message);
+    this.name = "UnreadableFileError";
+  }
+}
+
+// Formats vision models accept as-is; everything else is converted to PNG.
+const providerTypes = new Set<FileType>(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+const heicBrands = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+// Identifies a file from its leading bytes rather than trusting the
+// extension or the Content-Type the browser sent.
+export function detectFileType(buffer: Buffer): FileType | undefined {
+  const ascii = (start: number, end: number) => buffer.toString("latin1", start, end);
+
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "image/tiff";
+  if (ascii(0, 2) === "BM" && buffer.length >= 26) return "image/bmp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+
+  // ISO base media files (HEIC, AVIF) start with an ftyp box listing brands
+  if (ascii(4, 8) === "ftyp") {
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [ascii(8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(ascii(offset, offset + 4));
+    }
+    if (brands.some((brand) => brand === "avif" || brand === "avis")) return "image/avif";
+    if (brands.some((brand) => heicBrands.includes(brand))) return "image/heic";
+  }
+  return undefined;
+}
+
+// Returns the image in a format the provider can read, with its media type.
+export async function toProviderImage(
+  buffer: Buffer,
+  type: FileType
+): Promise<{ buffer: Buffer; mediaType: string }> {
+  if (providerTypes.has(type)) {
+    return { buffer, mediaType: type };
+  }
+
+  try {
+    return { buffer: await convertToPng(buffer, type), mediaType: "image/png" };
+  } catch (error) {
+    throw new UnreadableFileError(`Could not convert ${type} image: ${(error as Error).message}`, "unreadable_image");
+  }
+}
+
+async function convertToPng(buffer: Buffer, type: FileType): Promise<Buffer> {
+  switch (type) {
+    case "image/heic": {
+      // libvips ships without an HEVC decoder, so HEIC is decoded in WebAssembly
+      const { width, height, data } = await decodeHeic({ buffer });
+      return sharp(Buffer.from(data.buffer), { raw: { width, height, channels: 4 } }).png().toBuffer();
+    }
+    case "image/bmp": {
+      // bmp-js yields ABGR pixels
+      const { width, height, data } = bmp.decode(buffer);
+      const rgb = Buffer.alloc(width * height * 3);
+      for (let pixel = 0; pixel < width * height; pixel++) {
+        rgb[pixel * 3] = data[pixel * 4 + 3];
+        rgb[pixel * 3 + 1] = data[pixel * 4 + 2];
+        rgb[pixel * 3 + 2] = data[pixel * 4 + 1];
+      }
+      return sharp(rgb, { raw: { width, height, channels: 3 } }).png().toBuffer();
+    }
+    default:
+      return sharp(buffer).png().toBuffer();
+  }
+}
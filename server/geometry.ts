@@ -0,0 +1,80 @@
+import type { BoundingBox, PatternMatch, PatternValue, Patterns, TextLine, WordBox } from "./types.js";
+
+interface PixelBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export function toBoundingBox({ x0, y0, x1, y1 }: PixelBox, width: number, height: number): BoundingBox {
+  return { x: x0 / width, y: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height };
+}
+
+export function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+// Maps lines found in a horizontal strip of an image onto the whole image.
+export function offsetLines(lines: TextLine[], top: number, stripHeight: number, imageHeight: number): TextLine[] {
+  const move = (box: BoundingBox) => ({
+    ...box,
+    y: (top + box.y * stripHeight) / imageHeight,
+    height: (box.height * stripHeight) / imageHeight,
+  });
+  return lines.map((line) => ({
+    text: line.text,
+    box: move(line.box),
+    words: line.words.map((word) => ({ ...word, box: move(word.box) })),
+  }));
+}
+
+// Finds each pattern value in the recognized lines and returns the box around
+// the words it spans. Values split across lines are not located.
+export function locateMatches(lines: TextLine[], patterns: Patterns): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  for (const [pattern, values] of Object.entries(patterns) as [keyof Patterns, PatternValue[] | undefined][]) {
+    for (const { raw } of values ?? []) {
+      for (const words of findWords(lines, raw)) {
+        matches.push({ pattern, value: raw, box: unionBox(words.map((word) => word.box)) });
+      }
+    }
+  }
+  return matches;
+}
+
+// The words spanned by each occurrence of a value. Whitespace and case are
+// ignored, so "$ 15.93" on the image still matches "$15.93".
+export function findWords(lines: TextLine[], value: string): WordBox[][] {
+  const needle = compact(value);
+  if (!needle) return [];
+
+  const found: WordBox[][] = [];
+  for (const line of lines) {
+    // Character offsets in the compacted line where each word starts
+    let joined = "";
+    const starts = line.words.map((word) => {
+      const start = joined.length;
+      joined += compact(word.text);
+      return start;
+    });
+    const wordAt = (offset: number) => {
+      let index = 0;
+      while (index + 1 < starts.length && starts[index + 1] <= offset) index++;
+      return index;
+    };
+
+    for (let at = joined.indexOf(needle); at !== -1; at = joined.indexOf(needle, at + needle.length)) {
+      found.push(line.words.slice(wordAt(at), wordAt(at + needle.length - 1) + 1));
+    }
+  }
+  return found;
+}
+
+function compact(value: string): string {
+  return value.replace(/\s+/g, "").toLowerCase();
+}
@@ -0,0 +1,125 @@
+import { normalizeAmount, normalizeDate } from "./normalize.js";
+import type {
+  ExtractedTable,
+  ExtractionTemplate,
+  FieldValue,
+  LayoutBlock,
+  TemplateField,
+  TextLine,
+} from "./types.js";
+
+// Layout and template-field heuristics for providers that only produce plain
+// text, such as the fixture and local OCR providers.
+
+// Paragraphs become blocks; the first one is the document heading and
+// paragraphs made of aligned columns are treated as tables.
+export function toBlocks(text: string): LayoutBlock[] {
+  return text.split(/\n{2,}/).map((paragraph, index) => {
+    const lines = paragraph.split("\n");
+    const isTable = lines.length > 1 && lines.every((line) => /\S\s{2,}\S/.test(line));
+    return {
+      type: index === 0 ? "heading" : isTable ? "table" : "paragraph",
+      text: paragraph,
+    };
+  });
+}
+
+// Table blocks split into cells at runs of two or more spaces. The first line
+// is the header unless it holds numbers, as the first line of a receipt does.
+export function toTables(blocks: LayoutBlock[]): ExtractedTable[] {
+  return blocks
+    .filter((block) => block.type === "table")
+    .map((block) => toTable(block.text.split("\n").map(splitColumns)));
+}
+
+// Tables from OCR lines, whose text has single spaces between words. A gap
+// between two words wider than three characters starts a new column, and two
+// or more consecutive lines with several columns make a table.
+export function tablesFromLines(lines: TextLine[]): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  let run: string[][] = [];
+  for (const line of [...lines, null]) {
+    const columns = line ? lineColumns(line) : [];
+    if (columns.length > 1) {
+      run.push(columns);
+      continue;
+    }
+    if (run.length > 1) tables.push(toTable(run));
+    run = [];
+  }
+  return tables;
+}
+
+function lineColumns({ text, words }: TextLine): string[] {
+  if (words.length < 2) return [text];
+  const charWidth = (words[words.length - 1].box.x + words[words.length - 1].box.width - words[0].box.x) / text.length;
+  const columns = [[words[0].text]];
+  for (let i = 1; i < words.length; i++) {
+    const previous = words[i - 1].box;
+    const gap = words[i].box.x - (previous.x + previous.width);
+    if (gap > charWidth * 3) columns.push([]);
+    columns[columns.length - 1].push(words[i].text);
+  }
+  return columns.map((column) => column.join(" "));
+}
+
+function splitColumns(line: string): string[] {
+  return line.trim().split(/\s{2,}/);
+}
+
+function toTable([first, ...rest]: string[][]): ExtractedTable {
+  const toRow = (cells: string[]) => cells.map((text) => ({ text }));
+  return /\d/.test(first.join(""))
+    ? { headers: [], rows: [first, ...rest].map(toRow) }
+    : { headers: [toRow(first)], rows: rest.map(toRow) };
+}
+
+// Fills template fields by looking for "Label: value" lines whose label matches
+// the field name, e.g. due_date matches "Due Date: Apr 3, 2024".
+export function fillTemplate(template: ExtractionTemplate, text: string, blocks: LayoutBlock[]) {
+  return Object.fromEntries(
+    template.fields.map((field) => [field.name, fieldValue(field, text, blocks)])
+  );
+}
+
+function fieldValue(field: TemplateField, text: string, blocks: LayoutBlock[]): FieldValue {
+  if (field.type === "table") {
+    const table = blocks.find((block) => block.type === "table");
+    if (!table) return null;
+    const [headers, ...rows] = table.text.split("\n").map(splitColumns);
+    return { headers, rows };
+  }
+
+  const label = field.name
+    .split(/_|(?=[A-Z])/)
+    .map((word) => (/^(number|no)$/i.test(word) ? "(?:number|no\\.?|#)" : word))
+    .join("[\\s_-]*");
+  const raw = text.match(new RegExp(`\\b${label}(?![a-z])(?:[^:\\n]*:)?[ \\t]*(.+)`, "i"))?.[1].trim();
+  if (!raw) return null;
+
+  switch (field.type) {
+    case "number": {
+      const number = parseFloat(raw.replace(/[^\d.-]/g, ""));
+      return Number.isNaN(number) ? null : number;
+    }
+    case "money": {
+      const amount = normalizeAmount(raw);
+      return amount && { amount: amount.value, currency: amount.currency ?? "USD" };
+    }
+    case "date":
+      return normalizeDate(raw.split(/\s{2,}/)[0]);
+    case "boolean":
+      return parseBoolean(raw);
+    default:
+      return raw;
+  }
+}
+
+// Reads the first word of a value as yes or no, e.g. "No" or "✓ Paid"; null
+// when it is neither
+function parseBoolean(raw: string): boolean | null {
+  const word = raw.match(/^[^\s,;.]+/)?.[0].toLowerCase();
+  if (word && /^(?:yes|y|true|[✓✔☑])$/.test(word)) return true;
+  if (word && /^(?:no|n|false|[✗✘☐])$/.test(word)) return false;
+  return null;
+}
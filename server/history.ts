@@ -0,0 +1,321 @@
+import { and, asc, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { getDb } from "./db/index.js";
+import { extractedFiles, extractions, extractionTags, patterns, tags, users } from "./db/schema.js";
+import { detectDocumentType } from "./document-types.js";
+import { defaultProviderName } from "./extraction.js";
+import { mapInOrder } from "./pool.js";
+import { createThumbnail } from "./thumbnails.js";
+import { requestUsage } from "./usage.js";
+import type { AuthUser } from "./auth.js";
+import type {
+  DocumentType,
+  ExtractionResult,
+  ExtractOptions,
+  FileResult,
+  FileStatus,
+  PatternValue,
+  Patterns,
+  TokenUsage,
+  UploadedImage,
+} from "./types.js";
+
+export const tagsInputSchema = z.object({
+  tags: z.array(z.string().trim().min(1, "Tags can't be empty").max(50)).max(50),
+});
+
+export const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(["date", "filename", "type"]).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+// A file that was processed, with the upload it came from
+export interface ProcessedUpload {
+  image: UploadedImage;
+  result: FileResult;
+}
+
+// One file of the history list
+export interface HistoryEntry {
+  id: string;
+  extractionId: string;
+  // Place of the file in its extraction, from 0
+  position: number;
+  filename: string;
+  status: FileStatus;
+  documentType?: DocumentType;
+  thumbnail?: string;
+  createdAt: string;
+  // Files extracted together with this one, itself included
+  batchSize: number;
+  tags: string[];
+}
+
+// A saved extraction request with its files' outcomes, as returned by the API
+export interface ExtractionRecord {
+  id: string;
+  workspace: string;
+  provider: string;
+  templateId?: string;
+  requirements?: string;
+  createdAt: string;
+  usage: TokenUsage;
+  tags: string[];
+  files: FileResult[];
+}
+
+// Rows for every pattern and custom pattern value of an extracted file
+function patternRows(fileId: string, result: ExtractionResult) {
+  const builtIn = (Object.entries(result.patterns) as [keyof Patterns, PatternValue[] | undefined][]).flatMap(([name, values]) =>
+    (values ?? []).map((value) => ({
+      fileId,
+      type: value.type,
+      name,
+      raw: value.raw,
+      normalized: value.normalized,
+      confidence: result.confidence?.patterns[name]?.[value.raw] ?? null,
+    }))
+  );
+  const custom = Object.entries(result.custom ?? {}).flatMap(([name, values]) =>
+    values.map((value) => ({
+      fileId,
+      type: value.type,
+      name,
+      raw: value.raw,
+      normalized: value.normalized,
+      confidence: result.confidence?.custom?.[name]?.[value.raw] ?? null,
+    }))
+  );
+  return [...builtIn, ...custom];
+}
+
+// Saves an extraction request and returns its id. History errors are logged
+// and never fail the extraction, so the id is undefined when saving failed.
+export async function saveExtraction(
+  user: AuthUser,
+  workspace: string,
+  options: ExtractOptions,
+  uploads: ProcessedUpload[]
+): Promise<string | undefined> {
+  if (uploads.length === 0) return undefined;
+
+  try {
+    const db = await getDb();
+    const results = uploads.map((upload) => upload.result);
+    const usage = requestUsage(results);
+    const thumbnails = await mapInOrder(uploads, 2, (upload) => createThumbnail(upload.image));
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(users)
+        .values({ id: user.id, email: user.email })
+        .onConflictDoUpdate({ target: users.id, set: { email: user.email, lastSeenAt: new Date() } });
+
+      const [extraction] = await tx
+        .insert(extractions)
+        .values({
+          userId: user.id,
+          workspace,
+          provider: options.provider ?? defaultProviderName(),
+          templateId: options.template?.id,
+          requirements: options.requirements || undefined,
+          fileCount: results.length,
+          promptTokens: usage?.promptTokens ?? 0,
+          completionTokens: usage?.completionTokens ?? 0,
+          cost: usage?.cost,
+        })
+        .returning({ id: extractions.id });
+
+      const files = await tx
+        .insert(extractedFiles)
+        .values(
+          results.map((result, position) => {
+            const file = { extractionId: extraction.id, position, filename: result.filename, thumbnail: thumbnails[position] };
+            return result.status === "ok"
+              ? { ...file, status: result.status, text: result.text, result, documentType: detectDocumentType(result) }
+              : { ...file, status: result.status, error: result.error };
+          })
+        )
+        .returning({ id: extractedFiles.id, position: extractedFiles.position });
+
+      const rows = files.flatMap(({ id, position }) => {
+        const result = results[position];
+        return result.status === "ok" ? patternRows(id, result) : [];
+      });
+      if (rows.length) await tx.insert(patterns).values(rows);
+
+      return extraction.id;
+    });
+  } catch (error) {
+    console.error("Error saving extraction history:", error);
+    return undefined;
+  }
+}
+
+// Tag names of each of the extractions
+async function tagsByExtraction(extractionIds: string[]): Promise<Map<string, string[]>> {
+  const byExtraction = new Map<string, string[]>();
+  if (extractionIds.length === 0) return byExtraction;
+
+  const db = await getDb();
+  const rows = await db
+    .select({ extractionId: extractionTags.extractionId, name: tags.name })
+    .from(extractionTags)
+    .innerJoin(tags, eq(extractionTags.tagId, tags.id))
+    .where(inArray(extractionTags.extractionId, extractionIds))
+    .orderBy(asc(tags.name));
+  for (const row of rows) {
+    byExtraction.set(row.extractionId, [...(byExtraction.get(row.extractionId) ?? []), row.name]);
+  }
+  return byExtraction;
+}
+
+// Extractions the user made in the workspace
+function ownedBy(userId: string, workspace: string) {
+  return and(eq(extractions.userId, userId), eq(extractions.workspace, workspace));
+}
+
+// A page of the files the user extracted in the workspace, newest first by
+// default. Files of one extraction stay in upload order when sorted by date.
+export async function listHistory(
+  userId: string,
+  workspace: string,
+  query: HistoryQuery
+): Promise<{ entries: HistoryEntry[]; total: number }> {
+  const db = await getDb();
+  const direction = query.order === "asc" ? asc : desc;
+  const order = {
+    date: direction(extractions.createdAt),
+    filename: direction(sql`lower(${extractedFiles.filename})`),
+    // Files from before types were detected sort last either way
+    type: sql`${extractedFiles.documentType} ${sql.raw(query.order)} nulls last`,
+  }[query.sort];
+
+  const rows = await db
+    .select({
+      id: extractedFiles.id,
+      extractionId: extractedFiles.extractionId,
+      position: extractedFiles.position,
+      filename: extractedFiles.filename,
+      status: extractedFiles.status,
+      documentType: extractedFiles.documentType,
+      thumbnail: extractedFiles.thumbnail,
+      createdAt: extractions.createdAt,
+      batchSize: extractions.fileCount,
+    })
+    .from(extractedFiles)
+    .innerJoin(extractions, eq(extractedFiles.extractionId, extractions.id))
+    .where(ownedBy(userId, workspace))
+    .orderBy(order, desc(extractions.createdAt), asc(extractedFiles.position))
+    .limit(query.pageSize)
+    .offset((query.page - 1) * query.pageSize);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(extractedFiles)
+    .innerJoin(extractions, eq(extractedFiles.extractionId, extractions.id))
+    .where(ownedBy(userId, workspace));
+
+  const tagsOfExtraction = await tagsByExtraction([...new Set(rows.map((row) => row.extractionId))]);
+  return {
+    entries: rows.map((row) => ({
+      ...row,
+      documentType: row.documentType ?? undefined,
+      thumbnail: row.thumbnail ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      tags: tagsOfExtraction.get(row.extractionId) ?? [],
+    })),
+    total,
+  };
+}
+
+async function tagsOf(extractionId: string): Promise<string[]> {
+  const db = await getDb();
+  const rows = await db
+    .select({ name: tags.name })
+    .from(extractionTags)
+    .innerJoin(tags, eq(extractionTags.tagId, tags.id))
+    .where(eq(extractionTags.extractionId, extractionId))
+    .orderBy(asc(tags.name));
+  return rows.map((row) => row.name);
+}
+
+export async function getExtraction(userId: string, workspace: string, id: string): Promise<ExtractionRecord | undefined> {
+  if (!z.string().uuid().safeParse(id).success) return undefined;
+
+  const db = await getDb();
+  const extraction = await db.query.extractions.findFirst({
+    where: and(eq(extractions.id, id), ownedBy(userId, workspace)),
+  });
+  if (!extraction) return undefined;
+
+  const files = await db
+    .select()
+    .from(extractedFiles)
+    .where(eq(extractedFiles.extractionId, id))
+    .orderBy(asc(extractedFiles.position));
+
+  return {
+    id: extraction.id,
+    workspace: extraction.workspace,
+    provider: extraction.provider,
+    templateId: extraction.templateId ?? undefined,
+    requirements: extraction.requirements ?? undefined,
+    createdAt: extraction.createdAt.toISOString(),
+    usage: {
+      promptTokens: extraction.promptTokens,
+      completionTokens: extraction.completionTokens,
+      cost: extraction.cost ?? undefined,
+    },
+    tags: await tagsOf(id),
+    files: files.map((file): FileResult =>
+      file.status === "ok" && file.result
+        ? { ...file.result, status: "ok" }
+        : {
+            filename: file.filename,
+            status: file.status === "ok" ? "failed" : file.status,
+            error: file.error ?? { code: "missing_result", message: "The result was not saved" },
+          }
+    ),
+  };
+}
+
+// Replaces an extraction's tags, creating tags the user doesn't have yet.
+// Returns the new tags, or undefined when the extraction isn't the user's
+// in the workspace.
+export async function setExtractionTags(
+  userId: string,
+  workspace: string,
+  id: string,
+  names: string[]
+): Promise<string[] | undefined> {
+  if (!z.string().uuid().safeParse(id).success) return undefined;
+  const unique = [...new Set(names)];
+
+  const db = await getDb();
+  const found = await db.transaction(async (tx) => {
+    const [extraction] = await tx
+      .select({ id: extractions.id })
+      .from(extractions)
+      .where(and(eq(extractions.id, id), ownedBy(userId, workspace)));
+    if (!extraction) return false;
+
+    await tx.delete(extractionTags).where(eq(extractionTags.extractionId, id));
+    if (unique.length) {
+      await tx
+        .insert(tags)
+        .values(unique.map((name) => ({ userId, name })))
+        .onConflictDoNothing();
+      const rows = await tx
+        .select({ id: tags.id })
+        .from(tags)
+        .where(and(eq(tags.userId, userId), inArray(tags.name, unique)));
+      await tx.insert(extractionTags).values(rows.map((row) => ({ extractionId: id, tagId: row.id })));
+    }
+    return true;
+  });
+  return found ? tagsOf(id) : undefined;
+}
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes.js";
+import { defaultProviderName } from "./extraction.js";
 import { setupVite, serveStatic } from "./vite.js";
 import { createServer } from "http";
 import cors from 'cors';
@@ -44,6 +45,7 @@ app.use(express.urlencoded({ extended: false }));
   server.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
     console.log('Environment:', process.env.NODE_ENV);
+    console.log('Extraction provider:', defaultProviderName());
     console.log('Static files directory:', path.resolve(process.cwd(), "client/dist"));
   });
 })();
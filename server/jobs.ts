@@ -0,0 +1,149 @@
+import { randomUUID } from "crypto";
+import { batchConcurrency, processFile } from "./extraction.js";
+import { saveExtraction, type ProcessedUpload } from "./history.js";
+import { mapInOrder } from "./pool.js";
+import { recordTokens } from "./quota.js";
+import { addUsage, recordUsage } from "./usage.js";
+import type { AuthUser } from "./auth.js";
+import type { ExtractionResult, ExtractOptions, FileError, TokenUsage, UploadedImage } from "./types.js";
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled";
+export type JobFileStatus = "pending" | "processing" | "completed" | "failed" | "skipped" | "cancelled";
+
+interface JobFile {
+  filename: string;
+  status: JobFileStatus;
+  result?: ExtractionResult;
+  error?: FileError;
+  // Tokens the file used, whether or not it was extracted
+  usage?: TokenUsage;
+  image?: UploadedImage;
+}
+
+interface Job {
+  id: string;
+  // Id of the user who created the job; other users can't see or cancel it
+  owner: string;
+  // Workspace the job was started in, saved with its history
+  workspace: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  files: JobFile[];
+  controller: AbortController;
+  // Saved history entry, once the job has finished
+  extractionId?: string;
+}
+
+// Finished jobs are kept around for this long so clients can collect results.
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, Job>();
+
+export function createJob(
+  user: AuthUser,
+  workspace: string,
+  images: UploadedImage[],
+  options: Omit<ExtractOptions, "signal">
+) {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    owner: user.id,
+    workspace,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    files: images.map((image) => ({ filename: image.originalname, status: "pending", image })),
+    controller: new AbortController(),
+  };
+  jobs.set(job.id, job);
+
+  runJob(job, user, options).catch((error) => {
+    console.error(`Job ${job.id} failed:`, error);
+  });
+
+  return toJSON(job);
+}
+
+export function getJob(owner: string, id: string) {
+  const job = jobs.get(id);
+  return job?.owner === owner ? toJSON(job) : undefined;
+}
+
+export function cancelJob(owner: string, id: string) {
+  const job = jobs.get(id);
+  if (!job || job.owner !== owner) return undefined;
+
+  if (job.status === "queued" || job.status === "running") {
+    job.controller.abort();
+    for (const file of job.files) {
+      if (file.status === "pending" || file.status === "processing") {
+        file.status = "cancelled";
+        file.image = undefined;
+      }
+    }
+    finish(job, "cancelled");
+  }
+  return toJSON(job);
+}
+
+async function runJob(job: Job, user: AuthUser, options: Omit<ExtractOptions, "signal">) {
+  const { signal } = job.controller;
+  job.status = "running";
+  const processed: ProcessedUpload[] = [];
+
+  await mapInOrder(job.files, batchConcurrency(options.provider), async (file, index) => {
+    if (signal.aborted) return;
+
+    file.status = "processing";
+    touch(job);
+    const result = await processFile(file.image!, { ...options, signal });
+    await Promise.all([recordTokens(job.owner, result), recordUsage(job.owner, result)]);
+    processed[index] = { image: file.image!, result };
+    if (signal.aborted) return;
+
+    if (result.status === "ok") {
+      file.status = "completed";
+      file.result = result;
+    } else {
+      file.status = result.status;
+      file.error = result.error;
+    }
+    file.usage = result.usage;
+    file.image = undefined;
+    touch(job);
+  });
+
+  // Cancelled jobs keep what they extracted, in history as well
+  job.extractionId = await saveExtraction(user, job.workspace, options, processed.filter(Boolean));
+  if (!signal.aborted) {
+    finish(job, "completed");
+  }
+}
+
+function touch(job: Job) {
+  job.updatedAt = new Date().toISOString();
+}
+
+function finish(job: Job, status: JobStatus) {
+  job.status = status;
+  touch(job);
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+}
+
+function toJSON(job: Job) {
+  const usages = job.files.flatMap((file) => (file.usage ? [file.usage] : []));
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    total: job.files.length,
+    processed: job.files.filter((file) => ["completed", "failed", "skipped"].includes(file.status)).length,
+    files: job.files.map(({ filename, status, result, error }) => ({ filename, status, result, error })),
+    // Tokens and estimated cost of the files processed so far
+    usage: usages.length ? addUsage(usages) : undefined,
+    extractionId: job.extractionId,
+  };
+}
@@ -0,0 +1,62 @@
+import fs from "fs/promises";
+import path from "path";
+
+// A value kept in one JSON file, such as the templates or the usage ledger
+export interface JsonStore<T> {
+  // The stored value, read from disk on first use
+  read(): Promise<T>;
+  // Applies a change to the value and writes it back, returning what the
+  // change returned. Updates run one at a time, so each sees the one before
+  // it and writes never interleave. A change that throws writes nothing.
+  update<R>(change: (value: T) => R | Promise<R>): Promise<R>;
+}
+
+interface JsonStoreOptions<T> {
+  pretty?: boolean;
+  // Brings a value written by an older version up to date as it is read
+  upgrade?: (value: T) => T;
+}
+
+export function createJsonStore<T>(
+  file: string,
+  initial: () => T,
+  { pretty = false, upgrade = (value) => value }: JsonStoreOptions<T> = {}
+): JsonStore<T> {
+  let loading: Promise<T> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = () => {
+    // A failed read, such as of a corrupt file, is tried again next time
+    loading ??= fs
+      .readFile(file, "utf8")
+      .then((json) => upgrade(JSON.parse(json) as T))
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return initial();
+        loading = null;
+        throw error;
+      });
+    return loading;
+  };
+
+  // Written to a temporary file first, so a crash never leaves half a file
+  const write = async (value: T) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value, null, pretty ? 2 : undefined));
+    await fs.rename(temporary, file);
+  };
+
+  return {
+    read,
+    update(change) {
+      const next = queue.then(async () => {
+        const value = await read();
+        const result = await change(value);
+        await write(value);
+        return result;
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
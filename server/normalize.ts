@@ -0,0 +1,151 @@
+import { isValidAbn, isValidGstin, isValidIban, isValidVatId } from "./checksums.js";
+import type { Amount } from "./types.js";
+
+const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Longer symbols first, so "A$" isn't read as "$"
+const currencySymbols: [string, string][] = [
+  ["HK$", "HKD"],
+  ["NZ$", "NZD"],
+  ["US$", "USD"],
+  ["CN¥", "CNY"],
+  ["A$", "AUD"],
+  ["C$", "CAD"],
+  ["S$", "SGD"],
+  ["Rs", "INR"],
+  ["$", "USD"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["₩", "KRW"],
+];
+
+// Day-first or month-first reading of numeric dates such as 03/04/2024, from
+// DATE_ORDER ("mdy" or "dmy", default "mdy"). Dates that only make sense one
+// way, such as 21/03/2024, are read that way whatever the setting.
+const dayFirst = () => process.env.DATE_ORDER === "dmy";
+
+// Country calling code for phone numbers written without one (default 1)
+const defaultCountryCode = () => process.env.PHONE_COUNTRY_CODE || "1";
+
+// ISO-8601 date (YYYY-MM-DD), or null when the text isn't a real date
+export function normalizeDate(raw: string): string | null {
+  const text = raw.trim().toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, "$1");
+
+  let match = text.match(/^(\d{4})(?:[-/.](\d{1,2})[-/.](\d{1,2})|年(\d{1,2})月(\d{1,2})日)/);
+  if (match) return isoDate(+match[1], +(match[2] ?? match[4]), +(match[3] ?? match[5]));
+
+  match = text.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{2}|\d{4})\b/);
+  if (match) {
+    let [first, second] = [+match[1], +match[3]];
+    // Dotted dates are day-first across Europe
+    const swap = first > 12 || (second <= 12 && (dayFirst() || match[2] === "."));
+    if (swap) [first, second] = [second, first];
+    return isoDate(fullYear(match[4]), first, second);
+  }
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (match && months.includes(match[1])) return isoDate(+match[3], months.indexOf(match[1]) + 1, +match[2]);
+
+  match = text.match(/^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/);
+  if (match && months.includes(match[2])) return isoDate(+match[3], months.indexOf(match[2]) + 1, +match[1]);
+
+  return null;
+}
+
+// Numeric value and ISO-4217 currency; the currency is null when the text
+// names none. 1,200.50, 1.200,50, 1 200,50 and 1'200.50 all read as 1200.5,
+// and Indian grouping such as 1,00,000 as 100000.
+export function normalizeAmount(raw: string): Amount | null {
+  const number = raw.match(/-?\d[\d.,'’\s]*/)?.[0].trim();
+  if (!number) return null;
+
+  const code = raw.match(/\b[A-Z]{3}\b/)?.[0];
+  const currency = code ?? currencySymbols.find(([symbol]) => raw.includes(symbol))?.[1] ?? null;
+
+  const digits = number.replace(/['’\s]/g, "");
+  // The last separator is the decimal point when one or two digits follow it
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? digits.slice(0, -decimal[0].length) : digits).replace(/[.,]/g, "");
+  const value = parseFloat(decimal ? `${whole}.${decimal[1]}` : whole);
+  if (Number.isNaN(value)) return null;
+
+  const negative = /^\(.*\)$/.test(raw.trim()) && value > 0;
+  return { value: negative ? -value : value, currency };
+}
+
+// E.164 (+ and up to 15 digits). Numbers without a country code get
+// PHONE_COUNTRY_CODE; numbers too short or too long for a phone are null.
+export function normalizePhone(raw: string): string | null {
+  const digits = raw.replace(/\D/g, "");
+  const trimmed = raw.trim();
+
+  let international: string;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (trimmed.startsWith("00")) {
+    international = digits.slice(2);
+  } else {
+    const code = defaultCountryCode();
+    const national = digits.replace(/^0/, "");
+    // North American numbers are often written with their leading 1
+    international = code === "1" && digits.length === 11 && digits.startsWith("1") ? digits : code + national;
+    if (national.length < 7) return null;
+  }
+
+  return international.length >= 8 && international.length <= 15 ? `+${international}` : null;
+}
+
+// Lower-cased, or null when it isn't a syntactically valid address
+export function normalizeEmail(raw: string): string | null {
+  const email = raw.trim().toLowerCase();
+  const [local, domain, ...rest] = email.split("@");
+  if (rest.length || !local || !domain || local.length > 64 || email.length > 254) return null;
+  if (!/^[a-z0-9!#$%&'*+/=?^_`{|}~.-]+$/.test(local) || /^\.|\.\.|\.$/.test(local)) return null;
+  if (!/^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/.test(domain)) return null;
+  return email;
+}
+
+// Whitespace collapsed; null unless it has both a number and a name
+export function normalizeAddress(raw: string): string | null {
+  const address = raw.trim().replace(/\s+/g, " ");
+  return /\d/.test(address) && /[a-z]{2,}/i.test(address) ? address : null;
+}
+
+// Upper-cased without spaces; null unless it has a digit, since plain words
+// are rarely reference numbers
+export function normalizeIdentifier(raw: string): string | null {
+  const identifier = raw.replace(/\s+/g, "").toUpperCase();
+  return /\d/.test(identifier) ? identifier : null;
+}
+
+// Electronic format (upper-cased, no spaces), or null when the check digits
+// or length for its country are wrong
+export function normalizeIban(raw: string): string | null {
+  const iban = raw.replace(/\s+/g, "").toUpperCase();
+  return isValidIban(iban) ? iban : null;
+}
+
+// Compact form: EU and UK numbers keep their country prefix (DE136695976),
+// Australian ABNs are their 11 digits and Indian GSTINs their 15 characters.
+// Null when the format or check digits are wrong.
+export function normalizeVatId(raw: string): string | null {
+  const id = raw.replace(/[\s.-]+/g, "").toUpperCase().replace(/^GR/, "EL");
+  if (/^\d{11}$/.test(id)) return isValidAbn(id) ? id : null;
+  if (/^\d{2}[A-Z]{5}/.test(id)) return isValidGstin(id) ? id : null;
+  return isValidVatId(id) ? id : null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Two-digit years up to 69 are this century, as in POSIX strptime
+function fullYear(year: string): number {
+  return year.length === 2 ? (+year < 70 ? 2000 : 1900) + +year : +year;
+}
@@ -1,61 +1,94 @@
 import { OpenAI } from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionTokenLogprob } from "openai/resources/chat/completions";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { ZodType } from "zod";
+import { buildExtractionSchema, toExtractedData, type ExtractionDocument } from "./schema.js";
+import {
+  AuthenticationError,
+  ContentPolicyError,
+  MalformedOutputError,
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  RateLimitError,
+  TruncatedOutputError,
+} from "./errors.js";
+import { withRetry } from "./retry.js";
+import { estimateCost } from "./pricing.js";
+import type {
+  AnalyzeOptions,
+  Confidence,
+  ExtractedData,
+  ExtractionProvider,
+  ExtractionTemplate,
+  PatternValue,
+  Patterns,
+  TokenUsage,
+} from "./types.js";
 
-if (!process.env.OPENAI_API_KEY) {
-  console.error("Warning: OPENAI_API_KEY is not set");
+const MAX_ATTEMPTS = 3;
+
+const defaultPrompt = `Analyze this image and return a JSON document with:
+1. "text": all visible text in a clean, readable format. Include only what is visible in the image, with no headings, labels or commentary of your own.
+2. "patterns": values found in the visible text, copied exactly as they appear:
+   - "dates": dates in any format, including ISO (2024-03-21) and dotted (21.03.2024) dates
+   - "amounts": monetary amounts or numerical values, in any currency, with their symbol or code
+   - "emails": email addresses
+   - "phoneNumbers": phone numbers
+   - "addresses": physical addresses
+   - "identifiers": identifiers such as invoice numbers or reference codes
+   - "ibans": international bank account numbers (IBANs)
+   - "vatIds": VAT or GST registration numbers, such as EU VAT numbers, Australian ABNs and Indian GSTINs
+3. "blocks": the layout of the image as an ordered list of blocks (heading, paragraph, list, table, key_value or other), each with its text.
+If there are tables or structured data, preserve their layout in the block text.
+4. "tables": every table in the image, each with its "headers" (header rows, usually one) and body "rows". List each row's cells left to right. A merged cell is listed once, where it starts, with the number of rows and columns it covers in "rowSpan" and "colSpan"; leave the cells it covers out of the rows.
+Use empty arrays for anything that is not present.`;
+
+function templatePrompt(template: ExtractionTemplate): string {
+  const fields = template.fields
+    .map((field) => `   - "${field.name}" (${field.type})${field.description ? `: ${field.description}` : ""}`)
+    .join("\n");
+  return `5. "fields": the following values for a "${template.name}" document. Use null for any value that is not visible.
+${fields}
+   Dates are ISO-8601 (YYYY-MM-DD), money is an amount with an ISO-4217 currency code and tables are headers plus rows.`;
 }
 
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || 'dummy-key'  // Prevents crash during development
-});
-
-interface ExtractedData {
-  text: string;
-  patterns: {
-    dates?: string[];
-    amounts?: string[];
-    emails?: string[];
-    phoneNumbers?: string[];
-    addresses?: string[];
-    identifiers?: string[];
-  };
+function buildPrompt({ requirements, template }: AnalyzeOptions): string {
+  const basePrompt = template ? `${defaultPrompt}\n${templatePrompt(template)}` : defaultPrompt;
+  return requirements
+    ? `${requirements}\n\nAdditional analysis requirements: ${basePrompt}`
+    : basePrompt;
 }
 
-export async function analyzeImage(base64Image: string, requirements?: string): Promise<ExtractedData> {
+let client: OpenAI | null = null;
+
+function getClient(): OpenAI {
   if (!process.env.OPENAI_API_KEY) {
-    // Return mock data if no API key is set
-    return {
-      text: "API key not configured. This is mock data.",
-      patterns: {
-        dates: ["2024-03-21"],
-        amounts: ["$100.00"],
-        emails: ["example@test.com"],
-        phoneNumbers: ["123-456-7890"],
-        addresses: ["123 Test St"],
-        identifiers: ["ID123"],
-      }
-    };
+    throw new AuthenticationError("OPENAI_API_KEY is not set");
+  }
+  if (!client) {
+    // Retries are handled by withRetry so they can be classified and logged
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
   }
+  return client;
+}
 
-  try {
-    const defaultPrompt = `Analyze this image and extract the following:
-1. All visible text in a clean, readable format
-2. Identify and categorize the following patterns if present:
-   - Dates in any format
-   - Monetary amounts or numerical values
-   - Email addresses
-   - Phone numbers
-   - Physical addresses
-   - Any identifiers (e.g., invoice numbers, reference codes)
-If there are tables or structured data, preserve their layout.
-Return the results in a structured format separating the raw text from the identified patterns.`;
-
-    const prompt = requirements 
-      ? `${requirements}\n\nAdditional analysis requirements: ${defaultPrompt}` 
-      : defaultPrompt;
-
-    const visionResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
+export function createOpenAIProvider(model = process.env.OPENAI_MODEL || "gpt-4o"): ExtractionProvider {
+  return {
+    name: "openai",
+    limits: {
+      concurrency: parseInt(process.env.OPENAI_CONCURRENCY || "4", 10),
+      requestsPerMinute: process.env.OPENAI_RPM ? parseInt(process.env.OPENAI_RPM, 10) : undefined,
+    },
+    fingerprint(options) {
+      return `openai\n${model}\n${buildPrompt(options)}`;
+    },
+    async analyze(base64Image, mediaType, options) {
+      const { template, signal } = options;
+      const schema = buildExtractionSchema(template);
+      const prompt = buildPrompt(options);
+
+      const messages: ChatCompletionMessageParam[] = [
         {
           role: "user",
           content: [
@@ -63,39 +96,183 @@ Return the results in a structured format separating the raw text from the ident
             {
               type: "image_url",
               image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
+                url: `data:${mediaType};base64,${base64Image}`
               }
             }
           ],
         },
-      ],
-      max_tokens: 1500,
-      temperature: 0.3, // Lower temperature for more focused pattern recognition
-    });
-
-    const content = visionResponse.choices[0].message.content || "";
-    
-    // Parse the response to extract patterns
-    const patterns = {
-      dates: extractPatterns(content, /\b\d{1,2}[-/]\d{1,2}[-/]\d{2,4}\b|\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]* \d{1,2},? \d{4}\b/gi),
-      amounts: extractPatterns(content, /\$\d+(?:,\d{3})*(?:\.\d{2})?|\b\d+(?:,\d{3})*(?:\.\d{2})?\s*(?:USD|EUR|GBP)\b/gi),
-      emails: extractPatterns(content, /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g),
-      phoneNumbers: extractPatterns(content, /\+?\d{1,4}[-.\s]?\(?\d{1,3}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,4}[-.\s]?\d{1,9}/g),
-      addresses: extractPatterns(content, /\d+\s+[A-Za-z\s,]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Circle|Cir|Way)[,\s]+[A-Za-z\s]+,\s*[A-Z]{2}\s*\d{5}(?:-\d{4})?/gi),
-      identifiers: extractPatterns(content, /\b(?:INV|REF|ID|NO)[-#]?\d+\b|\b[A-Z0-9]{6,}\b/gi),
-    };
-
-    return {
-      text: content,
-      patterns,
-    };
-  } catch (error) {
+      ];
+
+      const retries = parseInt(process.env.OPENAI_MAX_RETRIES || "3", 10);
+      const timeout = parseInt(process.env.OPENAI_TIMEOUT_MS || "60000", 10);
+      const maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || "4096", 10);
+
+      // Malformed replies are paid for too
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, model };
+
+      try {
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+          const visionResponse = await withRetry(
+            () =>
+              getClient()
+                .chat.completions.create({
+                  model,
+                  messages,
+                  response_format: zodResponseFormat(schema, "extraction"),
+                  max_tokens: maxTokens,
+                  logprobs: true,
+                  temperature: 0.3, // Lower temperature for more focused pattern recognition
+                }, { signal, timeout })
+                .catch((error) => {
+                  throw classifyError(error);
+                }),
+            { retries, signal }
+          );
+
+          usage.promptTokens += visionResponse.usage?.prompt_tokens ?? 0;
+          usage.completionTokens += visionResponse.usage?.completion_tokens ?? 0;
+          // The dated snapshot that answered, e.g. gpt-4o-2024-08-06
+          usage.model = visionResponse.model || model;
+          usage.cost = estimateCost(usage.model, usage.promptTokens, usage.completionTokens);
+
+          const choice = visionResponse.choices[0];
+          if (choice.message.refusal) {
+            throw new ContentPolicyError(`Provider refused to analyze this image: ${choice.message.refusal}`);
+          }
+
+          // Asking again would hit the same limit; the caller can split the image instead
+          if (choice.finish_reason === "length") {
+            throw new TruncatedOutputError();
+          }
+
+          const content = choice.message.content || "";
+          const problem = validate(schema, content);
+          if (typeof problem !== "string") {
+            const data = toExtractedData(problem);
+            return { ...data, confidence: tokenConfidence(content, choice.logprobs?.content, data), usage };
+          }
+
+          console.warn(`Malformed extraction output (attempt ${attempt}/${MAX_ATTEMPTS}): ${problem}`);
+          messages.push(
+            { role: "assistant", content },
+            {
+              role: "user",
+              content: `Your reply did not match the required JSON schema (${problem}). Reply again with only the JSON document.`,
+            }
+          );
+        }
+
+        throw new MalformedOutputError(`Provider returned malformed output ${MAX_ATTEMPTS} times`);
+      } catch (error) {
+        if (error instanceof ProviderError && usage.promptTokens + usage.completionTokens > 0) {
+          error.usage = { ...usage };
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// Maps OpenAI SDK errors onto our provider error hierarchy. Aborts are passed
+// through untouched so callers can tell cancellation apart from failure.
+function classifyError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError) return error;
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return new ProviderTimeoutError();
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new ProviderUnavailableError("Could not reach the provider");
+  }
+  if (error instanceof OpenAI.RateLimitError) {
+    // Quota errors share the 429 status but will not clear up by waiting
+    if (error.code === "insufficient_quota") {
+      return new ProviderError("Provider quota exhausted", "quota_exceeded");
+    }
+    return new RateLimitError(retryAfterSeconds(error.headers));
+  }
+  if (error instanceof OpenAI.AuthenticationError || error instanceof OpenAI.PermissionDeniedError) {
+    return new AuthenticationError();
+  }
+  if (error instanceof OpenAI.BadRequestError && error.code === "content_policy_violation") {
+    return new ContentPolicyError();
+  }
+  if (error instanceof OpenAI.APIError && error.status && error.status >= 500) {
+    return new ProviderUnavailableError();
+  }
+  if (error instanceof OpenAI.APIError) {
     console.error("OpenAI API error:", error);
-    throw new Error("Failed to analyze image");
+    return new ProviderError(`Provider rejected the request: ${error.message}`);
   }
+  return error;
 }
 
-function extractPatterns(text: string, pattern: RegExp): string[] {
-  const matches = text.match(pattern) || [];
-  return [...new Set(matches)]; // Remove duplicates
+function retryAfterSeconds(headers: Record<string, string | null | undefined> | undefined) {
+  const retryAfterMs = Number(headers?.["retry-after-ms"]);
+  if (retryAfterMs > 0) return retryAfterMs / 1000;
+  const retryAfter = Number(headers?.["retry-after"]);
+  return retryAfter > 0 ? retryAfter : undefined;
+}
+
+// Scores pattern values and template fields by the probability the model gave
+// the tokens it wrote them with; a value is as certain as its least likely
+// token. Values that can't be found in the output are left for the heuristics.
+function tokenConfidence(
+  content: string,
+  tokens: ChatCompletionTokenLogprob[] | null | undefined,
+  data: ExtractedData
+): Confidence | undefined {
+  if (!tokens?.length) return undefined;
+
+  const probabilities: number[] = [];
+  for (const { token, logprob } of tokens) {
+    probabilities.push(...Array<number>(token.length).fill(Math.exp(logprob)));
+  }
+  // Tokens that split a multi-byte character don't add up to the content
+  if (probabilities.length !== content.length) return undefined;
+
+  const scoreAfter = (from: number, needle: string) => {
+    const at = from === -1 ? -1 : content.indexOf(needle, from);
+    return at === -1 ? undefined : Math.min(...probabilities.slice(at, at + needle.length));
+  };
+  const keyAt = (key: string, from: number) => {
+    const at = from === -1 ? -1 : content.indexOf(`"${key}"`, from);
+    return at === -1 ? -1 : at + key.length + 2;
+  };
+  const inner = (value: string) => JSON.stringify(value).slice(1, -1);
+
+  const confidence: Confidence = { patterns: {} };
+  const patternsAt = keyAt("patterns", 0);
+  for (const [key, values] of Object.entries(data.patterns) as [keyof Patterns, PatternValue[] | undefined][]) {
+    const at = keyAt(key, patternsAt);
+    for (const { raw } of values ?? []) {
+      const score = scoreAfter(at, inner(raw));
+      if (score !== undefined) (confidence.patterns[key] ??= {})[raw] = score;
+    }
+  }
+
+  const fieldsAt = keyAt("fields", 0);
+  for (const [name, value] of Object.entries(data.fields ?? {})) {
+    if (value === null || (typeof value === "object" && !("amount" in value))) continue;
+    const needle =
+      typeof value === "string" ? inner(value) : typeof value === "object" ? String(value.amount) : String(value);
+    const score = scoreAfter(keyAt(name, fieldsAt), needle);
+    if (score !== undefined) (confidence.fields ??= {})[name] = score;
+  }
+  return confidence;
+}
+
+// Returns the parsed document, or a description of what was wrong with it.
+function validate(schema: ZodType<ExtractionDocument>, content: string) {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    return "output is not valid JSON";
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return result.error.issues
+      .map((issue) => `${issue.path.join(".") || "document"}: ${issue.message}`)
+      .join("; ");
+  }
+  return result.data;
 }
@@ -0,0 +1,158 @@
+import {
+  normalizeAddress,
+  normalizeAmount,
+  normalizeDate,
+  normalizeEmail,
+  normalizeIban,
+  normalizeIdentifier,
+  normalizePhone,
+  normalizeVatId,
+} from "./normalize.js";
+import type { PatternType, PatternValue, Patterns } from "./types.js";
+
+const months = "(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?";
+
+const datePattern = new RegExp(
+  [
+    String.raw`\b\d{4}-\d{2}-\d{2}\b`, // ISO
+    String.raw`\b\d{4}/\d{1,2}/\d{1,2}\b`, // year first, as in East Asia
+    String.raw`\d{4}年\d{1,2}月\d{1,2}日`,
+    String.raw`\b\d{1,2}[-/]\d{1,2}[-/]\d{2,4}\b`,
+    String.raw`\b\d{1,2}\.\d{1,2}\.(?:\d{4}|\d{2})\b`, // dotted, as in most of Europe
+    String.raw`\b${months} \d{1,2}(?:st|nd|rd|th)?,? \d{4}\b`,
+    String.raw`\b\d{1,2}(?:st|nd|rd|th)? ${months},? \d{4}\b`,
+  ].join("|"),
+  "gi"
+);
+
+// Thousands may be grouped with commas, dots, apostrophes or (narrow) spaces,
+// or in the Indian lakh style (1,00,000), and decimals follow a dot or comma
+const number = String.raw`(?:\d{1,2}(?:,\d{2})+,\d{3}|\d{1,3}(?:[,.'’ \u00a0\u202f]\d{3})+|\d+)(?:[.,]\d{1,2})?`;
+const currencyCodes = "USD|EUR|GBP|JPY|CNY|INR|AUD|CAD|CHF|SGD|HKD|NZD|KRW|SEK|NOK|DKK|PLN|CZK";
+const amountPattern = new RegExp(
+  [
+    String.raw`(?:HK\$|NZ\$|US\$|CN¥|A\$|C\$|S\$|[$€£¥₹₩]|Rs\.?)\s?${number}`,
+    String.raw`\b${number}\s?(?:[€£¥₹]|kr\b)`,
+    String.raw`\b(?:${currencyCodes})\s?${number}`,
+    String.raw`\b${number}\s?(?:${currencyCodes})\b`,
+  ].join("|"),
+  "g"
+);
+
+const streets = "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Circle|Cir|Way|Place|Pl|Crescent|Cres|Close|Square|Sq|Terrace|Parade";
+const addressPattern = new RegExp(
+  [
+    // US: 1450 Harbor Street, Portland, OR 97209
+    String.raw`\d+\s+[A-Za-z\s,]+(?:${streets})[,\s]+[A-Za-z\s]+,\s*[A-Z]{2}\s*\d{5}(?:-\d{4})?`,
+    // Canada: 100 Queen St W, Toronto, ON M5H 2N2
+    String.raw`\d+\s+[A-Za-z\s,.]+(?:${streets})\b[A-Za-z\s,.]*,\s*[A-Z]{2}\s+[A-Z]\d[A-Z]\s?\d[A-Z]\d\b`,
+    // UK: 10 Downing Street, London SW1A 2AA
+    String.raw`\d+[A-Za-z]?\s+[A-Za-z\s,.'-]+?,?\s+[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}\b`,
+    // Street then number: Hauptstraße 5, 10115 Berlin / Damrak 1, 1012 LG Amsterdam
+    String.raw`\p{Lu}[\p{L}.'-]+(?:\s[\p{L}.'-]+)*\s\d+[a-z]?,\s*(?:[A-Z]{1,2}-)?\d{4,5}(?:\s?[A-Z]{2})?\s+\p{Lu}[\p{L}-]+(?:\s\p{Lu}[\p{L}-]+)*`,
+    // Number then street: 12 Rue de Rivoli, 75001 Paris
+    String.raw`\d+(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|boulevard|place|chemin|allée|quai|via|viale|piazza|corso|calle|avenida|plaza|paseo|rua)\s[\p{L}\s.'-]+,\s*(?:[A-Z]{1,2}-)?\d{4,5}\s+\p{Lu}[\p{L}-]+(?:\s\p{Lu}[\p{L}-]+)*`,
+  ].join("|"),
+  "giu"
+);
+
+// Country code, check digits and up to 30 characters, often in groups of four
+const ibanPattern = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+
+const vatPattern = new RegExp(
+  [
+    // EU and UK numbers start with their country code and have at least seven digits
+    String.raw`\b(?:AT|BE|BG|CY|CZ|DE|DK|EE|EL|GR|ES|FI|FR|GB|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK|XI) ?(?=(?:[A-Z+*]?[ .]?\d){7})[0-9A-Z+*](?:[ .]?[0-9A-Z]){6,13}\b`,
+    // Australian Business Number, after its label
+    String.raw`(?<=\bABN:?\s*)\d{2} ?\d{3} ?\d{3} ?\d{3}\b`,
+    // Indian GSTIN
+    String.raw`\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b`,
+  ].join("|"),
+  "g"
+);
+
+// Digits in up to five groups on one line, starting where no number or word
+// does; matches with fewer than seven digits, such as ZIP codes, are dropped
+const phonePattern = /(?<![\w.,])\+?\d{1,4}[-. \t]?\(?\d{1,3}\)?[-. \t]?\d{1,4}[-. \t]?\d{1,4}[-. \t]?\d{1,9}/g;
+
+// Labelled references such as INV-123 or ref#77 in any case, and upper-case
+// codes of six or more characters with at least one digit, so plain words
+// aren't taken for codes
+const identifierPattern = /\b(?:[Ii][Nn][Vv]|[Rr][Ee][Ff]|[Ii][Dd]|[Nn][Oo])[-#]?\d+\b|\b(?=[A-Z0-9]*\d)[A-Z0-9]{6,}\b/g;
+
+export function findPatterns(text: string): Patterns {
+  const dates = extractPatterns(text, datePattern);
+  const ibans = extractPatterns(text, ibanPattern);
+  const vatIds = unclaimed(extractPatterns(text, vatPattern), ibans);
+
+  return toPatterns({
+    dates,
+    amounts: extractPatterns(text, amountPattern),
+    emails: extractPatterns(text, /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g),
+    phoneNumbers: unclaimed(
+      extractPatterns(text, phonePattern).filter((value) => value.replace(/\D/g, "").length >= 7),
+      [...dates, ...ibans, ...vatIds]
+    ),
+    addresses: extractPatterns(text, addressPattern),
+    identifiers: unclaimed(
+      extractPatterns(text, identifierPattern),
+      [...ibans, ...vatIds]
+    ),
+    ibans,
+    vatIds,
+  });
+}
+
+// Drops values that are part of a value of a more specific kind, such as the
+// digits of an IBAN read as a phone number
+function unclaimed(values: string[], claimed: string[]): string[] {
+  const compact = (value: string) => value.replace(/[\s.-]+/g, "").toUpperCase();
+  const ids = claimed.map(compact);
+  return values.filter((value) => !ids.some((id) => id.includes(compact(value))));
+}
+
+const patternKeys = [
+  "dates",
+  "amounts",
+  "emails",
+  "phoneNumbers",
+  "addresses",
+  "identifiers",
+  "ibans",
+  "vatIds",
+] as const;
+
+const normalizers = {
+  dates: { type: "date", normalize: normalizeDate },
+  amounts: { type: "amount", normalize: normalizeAmount },
+  emails: { type: "email", normalize: normalizeEmail },
+  phoneNumbers: { type: "phone", normalize: normalizePhone },
+  addresses: { type: "address", normalize: normalizeAddress },
+  identifiers: { type: "identifier", normalize: normalizeIdentifier },
+  ibans: { type: "iban", normalize: normalizeIban },
+  vatIds: { type: "vat_id", normalize: normalizeVatId },
+} satisfies Record<keyof Patterns, { type: PatternType; normalize: (raw: string) => unknown }>;
+
+// Types raw strings found for each kind of pattern, dropping blanks and repeats
+export function toPatterns(raw: { [K in keyof Patterns]?: string[] }): Patterns {
+  const typed = <K extends keyof Patterns>(key: K) => {
+    const { type, normalize } = normalizers[key];
+    const values = [...new Set((raw[key] ?? []).map((value) => value.trim()).filter(Boolean))];
+    return values.map((value) => ({ raw: value, normalized: normalize(value), type }));
+  };
+  return Object.fromEntries(patternKeys.map((key) => [key, typed(key)]));
+}
+
+// Combines patterns found in several pieces of one document, e.g. its pages.
+export function mergePatterns(list: Patterns[]): Patterns {
+  return Object.fromEntries(
+    patternKeys.map((key) => {
+      const values = list.flatMap((patterns): PatternValue[] => patterns[key] ?? []);
+      return [key, values.filter((value, index) => values.findIndex((other) => other.raw === value.raw) === index)];
+    })
+  );
+}
+
+function extractPatterns(text: string, pattern: RegExp): string[] {
+  return text.match(pattern) || [];
+}
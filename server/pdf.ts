@@ -0,0 +1,58 @@
+import { UnreadableFileError } from "./formats.js";
+
+// mupdf is loaded on first use since its WebAssembly module is large.
+async function openPdf(buffer: Buffer) {
+  const mupdf = await import("mupdf");
+  try {
+    return { mupdf, document: mupdf.Document.openDocument(buffer, "application/pdf") };
+  } catch (error) {
+    throw new UnreadableFileError(`Could not read PDF: ${(error as Error).message}`, "unreadable_pdf");
+  }
+}
+
+// Renders every page of a PDF to a PNG at PDF_RENDER_DPI (default 150).
+export async function renderPdfPages(buffer: Buffer): Promise<Buffer[]> {
+  const { mupdf, document } = await openPdf(buffer);
+  const maxPages = parseInt(process.env.PDF_MAX_PAGES || "20", 10);
+  const scale = parseInt(process.env.PDF_RENDER_DPI || "150", 10) / 72;
+
+  try {
+    if (document.needsPassword()) {
+      throw new UnreadableFileError("PDF is password protected", "unreadable_pdf");
+    }
+    const pageCount = document.countPages();
+    if (pageCount > maxPages) {
+      throw new UnreadableFileError(`PDF has ${pageCount} pages, the limit is ${maxPages}`, "too_many_pages");
+    }
+
+    const pages: Buffer[] = [];
+    for (let index = 0; index < pageCount; index++) {
+      const page = document.loadPage(index);
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false);
+      pages.push(Buffer.from(pixmap.asPNG()));
+      pixmap.destroy();
+      page.destroy();
+    }
+    return pages;
+  } finally {
+    document.destroy();
+  }
+}
+
+// Renders the first page of a PDF to a PNG at the given resolution, for previews
+export async function renderFirstPdfPage(buffer: Buffer, dpi: number): Promise<Buffer> {
+  const { mupdf, document } = await openPdf(buffer);
+  try {
+    if (document.needsPassword()) {
+      throw new UnreadableFileError("PDF is password protected", "unreadable_pdf");
+    }
+    const page = document.loadPage(0);
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(dpi / 72, dpi / 72), mupdf.ColorSpace.DeviceRGB, false);
+    const png = Buffer.from(pixmap.asPNG());
+    pixmap.destroy();
+    page.destroy();
+    return png;
+  } finally {
+    document.destroy();
+  }
+}
@@ -0,0 +1,63 @@
+export interface RateLimits {
+  // Maximum number of calls in flight at once
+  concurrency: number;
+  // Optional cap on how many calls may start per minute
+  requestsPerMinute?: number;
+}
+
+export interface Limiter {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+// Shared gate for calls to one provider, so concurrent batches together stay
+// within the provider's rate budget.
+export function createLimiter({ concurrency, requestsPerMinute }: RateLimits): Limiter {
+  const interval = requestsPerMinute ? 60_000 / requestsPerMinute : 0;
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let nextStart = 0;
+
+  return {
+    async run(task) {
+      while (active >= concurrency) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+      active++;
+
+      try {
+        const now = Date.now();
+        const delay = nextStart - now;
+        nextStart = Math.max(now, nextStart) + interval;
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        return await task();
+      } finally {
+        active--;
+        waiting.shift()?.();
+      }
+    },
+  };
+}
+
+// Runs fn over items with at most `concurrency` calls in flight. Results are
+// returned in the order of items, whatever order the calls finish in.
+export async function mapInOrder<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,119 @@
+import sharp from "sharp";
+
+export const preprocessSteps = ["rotate", "resize", "grayscale", "normalize", "deskew"] as const;
+export type PreprocessStep = (typeof preprocessSteps)[number];
+
+export interface PreprocessedImage {
+  buffer: Buffer;
+  mediaType: string;
+  // Steps that changed the image, in the order they ran
+  steps: PreprocessStep[];
+}
+
+// Parses a comma-separated list of steps, or "none". Returns undefined if any
+// step is unknown.
+export function parsePreprocessSteps(value: string): PreprocessStep[] | undefined {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name && name !== "none");
+  if (names.some((name) => !preprocessSteps.includes(name as PreprocessStep))) return undefined;
+  return names as PreprocessStep[];
+}
+
+// PREPROCESS_STEPS picks the steps used when a request doesn't choose its own.
+export function defaultPreprocessSteps(): PreprocessStep[] {
+  return parsePreprocessSteps(process.env.PREPROCESS_STEPS ?? "rotate,resize,normalize") ?? [];
+}
+
+// Longest side the resize step leaves an image with
+export function maxDimension(): number {
+  return parseInt(process.env.PREPROCESS_MAX_DIMENSION || "2048", 10);
+}
+
+// Cleans up a photo before it goes to the provider: EXIF auto-rotate,
+// downscale to PREPROCESS_MAX_DIMENSION (default 2048, beyond which vision
+// models downscale anyway), grayscale, contrast stretch and deskew. The image
+// is only re-encoded when a step actually changes it.
+export async function preprocessImage(
+  buffer: Buffer,
+  mediaType: string,
+  steps: PreprocessStep[] = defaultPreprocessSteps()
+): Promise<PreprocessedImage> {
+  const longestSide = maxDimension();
+  const { width = 0, height = 0, orientation = 1 } = await sharp(buffer).metadata();
+
+  const applied = steps.filter((step) => {
+    if (step === "rotate") return orientation > 1;
+    if (step === "resize") return Math.max(width, height) > longestSide;
+    return step !== "deskew";
+  });
+
+  let image = sharp(buffer);
+  if (applied.includes("rotate")) image = image.rotate();
+  if (applied.includes("resize")) {
+    image = image.resize({ width: longestSide, height: longestSide, fit: "inside" });
+  }
+  if (applied.includes("grayscale")) image = image.grayscale();
+  if (applied.includes("normalize")) image = image.normalize();
+
+  // Re-encode in the original format, except GIF which sharp writes poorly
+  const format = mediaType === "image/jpeg" ? "jpeg" : mediaType === "image/webp" ? "webp" : "png";
+  let output = applied.length > 0 ? await image.toFormat(format).toBuffer() : buffer;
+
+  if (steps.includes("deskew")) {
+    const angle = await detectSkew(output);
+    if (Math.abs(angle) >= 0.5) {
+      output = await sharp(output)
+        .rotate(-angle, { background: "#ffffff" })
+        .toFormat(format)
+        .toBuffer();
+      applied.push("deskew");
+    }
+  }
+
+  return {
+    buffer: output,
+    mediaType: applied.length > 0 ? `image/${format}` : mediaType,
+    steps: applied,
+  };
+}
+
+// Estimates text skew in degrees (clockwise) with a projection profile: dark
+// pixels are projected onto the vertical axis at each candidate angle, and
+// the angle at which text lines stack into the sharpest peaks wins.
+async function detectSkew(buffer: Buffer, maxAngle = 10): Promise<number> {
+  const { data, info } = await sharp(buffer)
+    .grayscale()
+    .normalize()
+    .resize({ width: 800, height: 800, fit: "inside", withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (data[y * info.width + x] < 128) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const offset = info.width + info.height;
+  let best = { angle: 0, score: 0 };
+  for (let angle = -maxAngle; angle <= maxAngle; angle += 0.25) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(offset * 2);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    const score = rows.reduce((sum, count) => sum + count * count, 0);
+    if (score > best.score) best = { angle, score };
+  }
+  return best.angle;
+}
@@ -0,0 +1,47 @@
+// Estimated cost of provider calls, from a table of USD prices per million
+// tokens. Model names match by prefix, so "gpt-4o-2024-08-06" is priced as
+// "gpt-4o"; the longest matching name wins.
+
+export interface ModelPrice {
+  // USD per million prompt (input) tokens
+  input: number;
+  // USD per million completion (output) tokens
+  output: number;
+}
+
+const defaultPrices: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+// MODEL_PRICES adds to or overrides the defaults, as JSON such as
+// {"gpt-4o": {"input": 2.5, "output": 10}}
+export function priceTable(): Record<string, ModelPrice> {
+  if (!prices) {
+    prices = { ...defaultPrices };
+    if (process.env.MODEL_PRICES) {
+      try {
+        Object.assign(prices, JSON.parse(process.env.MODEL_PRICES));
+      } catch (error) {
+        console.warn("Ignoring MODEL_PRICES, it is not valid JSON:", error);
+      }
+    }
+  }
+  return prices;
+}
+
+// USD, or undefined for models without a price
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | undefined {
+  const name = Object.keys(priceTable())
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) return undefined;
+
+  const { input, output } = priceTable()[name];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
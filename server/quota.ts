@@ -0,0 +1,287 @@
+import path from "path";
+import { createJsonStore } from "./json-store.js";
+import type { NextFunction, Request, Response } from "express";
+import type { FileResult } from "./types.js";
+
+// Counters for quota windows, keyed by user, quota and window, e.g.
+// "u1:images:2024-05-01". Entries are dropped once their window has passed.
+export interface QuotaStore {
+  get(key: string): Promise<number>;
+  // Adds to the counter and returns its new value
+  add(key: string, amount: number, expiresAt: number): Promise<number>;
+  // Adds every amount at once if no counter would go over its limit. Returns
+  // the key of the first counter that would, having added nothing, or
+  // undefined once everything was added.
+  reserve(reservations: Reservation[]): Promise<string | undefined>;
+}
+
+export interface Reservation {
+  key: string;
+  amount: number;
+  limit: number;
+  expiresAt: number;
+}
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+export function createMemoryQuotaStore(): QuotaStore {
+  const counters = new Map<string, Counter>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+    },
+    async add(key, amount, expiresAt) {
+      prune();
+      const counter = counters.get(key) ?? { value: 0, expiresAt };
+      counter.value += amount;
+      counters.set(key, counter);
+      return counter.value;
+    },
+    async reserve(reservations) {
+      prune();
+      const over = reservations.find(({ key, amount, limit }) => (counters.get(key)?.value ?? 0) + amount > limit);
+      if (over) return over.key;
+
+      for (const { key, amount, expiresAt } of reservations) {
+        const counter = counters.get(key) ?? { value: 0, expiresAt };
+        counter.value += amount;
+        counters.set(key, counter);
+      }
+      return undefined;
+    },
+  };
+}
+
+// Keeps counters in one JSON file, so daily and monthly quotas survive restarts
+export function createFileQuotaStore(file: string): QuotaStore {
+  const store = createJsonStore<Record<string, Counter>>(file, () => ({}));
+
+  const prune = (all: Record<string, Counter>) => {
+    const now = Date.now();
+    for (const [name, counter] of Object.entries(all)) {
+      if (counter.expiresAt <= now) delete all[name];
+    }
+  };
+
+  return {
+    async get(key) {
+      const counter = (await store.read())[key];
+      return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+    },
+    async add(key, amount, expiresAt) {
+      return store.update((all) => {
+        prune(all);
+        all[key] ??= { value: 0, expiresAt };
+        all[key].value += amount;
+        return all[key].value;
+      });
+    },
+    async reserve(reservations) {
+      return store.update((all) => {
+        prune(all);
+        const over = reservations.find(({ key, amount, limit }) => (all[key]?.value ?? 0) + amount > limit);
+        if (over) return over.key;
+
+        for (const { key, amount, expiresAt } of reservations) {
+          all[key] ??= { value: 0, expiresAt };
+          all[key].value += amount;
+        }
+        return undefined;
+      });
+    },
+  };
+}
+
+// QUOTA_BACKEND picks "memory" (default) or "disk"
+export function createQuotaStoreFromEnv(): QuotaStore {
+  switch (process.env.QUOTA_BACKEND || "memory") {
+    case "memory":
+      return createMemoryQuotaStore();
+    case "disk":
+      return createFileQuotaStore(path.resolve(process.env.DATA_DIR || "data", "quotas.json"));
+    default:
+      throw new Error(`Unknown quota backend: ${process.env.QUOTA_BACKEND}`);
+  }
+}
+
+let store: QuotaStore | null = null;
+
+function getStore(): QuotaStore {
+  store ??= createQuotaStoreFromEnv();
+  return store;
+}
+
+export type QuotaName = "requests" | "images" | "tokens";
+
+type QuotaWindow = "minute" | "day" | "month";
+
+const windows: Record<QuotaName, QuotaWindow> = {
+  requests: "minute",
+  images: "day",
+  tokens: "month",
+};
+
+// 0 turns a quota off
+function limitOf(name: QuotaName): number {
+  const configured = {
+    requests: process.env.QUOTA_REQUESTS_PER_MINUTE || "30",
+    images: process.env.QUOTA_IMAGES_PER_DAY || "500",
+    tokens: process.env.QUOTA_TOKENS_PER_MONTH || "2000000",
+  }[name];
+  return parseInt(configured, 10) || 0;
+}
+
+// Fixed UTC windows: the current minute, day or calendar month
+function windowOf(window: QuotaWindow, now = new Date()): { id: string; resetAt: number } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  switch (window) {
+    case "minute": {
+      const start = Math.floor(now.getTime() / 60_000) * 60_000;
+      return { id: String(start), resetAt: start + 60_000 };
+    }
+    case "day":
+      return { id: now.toISOString().slice(0, 10), resetAt: Date.UTC(year, month, now.getUTCDate() + 1) };
+    case "month":
+      return { id: now.toISOString().slice(0, 7), resetAt: Date.UTC(year, month + 1, 1) };
+  }
+}
+
+export interface QuotaUsage {
+  name: QuotaName;
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the window restarts, as an ISO timestamp
+  resetAt: string;
+}
+
+interface QuotaCounter {
+  usage: QuotaUsage;
+  key: string;
+  resetAt: number;
+}
+
+async function counterOf(user: string, name: QuotaName): Promise<QuotaCounter> {
+  const { id, resetAt } = windowOf(windows[name]);
+  const key = `${user}:${name}:${id}`;
+  const limit = limitOf(name);
+  const used = await getStore().get(key);
+  return {
+    usage: { name, limit, used, remaining: Math.max(0, limit - used), resetAt: new Date(resetAt).toISOString() },
+    key,
+    resetAt,
+  };
+}
+
+// The user's enabled quotas and how much of each is left
+export async function quotaStatus(user: string): Promise<QuotaUsage[]> {
+  const names = (Object.keys(windows) as QuotaName[]).filter((name) => limitOf(name) > 0);
+  const counters = await Promise.all(names.map((name) => counterOf(user, name)));
+  return counters.map((counter) => counter.usage);
+}
+
+const limitMessages: Record<QuotaName, (usage: QuotaUsage) => string> = {
+  requests: (usage) => `Too many requests: the limit is ${usage.limit} per minute`,
+  images: (usage) =>
+    usage.remaining > 0
+      ? `Daily image quota exceeded: ${usage.remaining} of ${usage.limit} images left today`
+      : `Daily image quota of ${usage.limit} images reached`,
+  tokens: (usage) => `Monthly token budget of ${usage.limit.toLocaleString("en-US")} tokens used up`,
+};
+
+// Admits an extraction request for the signed-in user: at most
+// QUOTA_REQUESTS_PER_MINUTE requests, QUOTA_IMAGES_PER_DAY uploaded files and,
+// once QUOTA_TOKENS_PER_MONTH provider tokens are spent, no more requests.
+// Sets RateLimit-* headers for the request rate and responds 429 with
+// Retry-After when a quota would be exceeded. The request and its files are
+// reserved in one step, so concurrent requests can't overshoot a quota, and
+// given back when the request fails.
+export async function enforceQuota(req: Request, res: Response, next: NextFunction) {
+  const user = req.user!.id;
+  // What this request needs of each quota; tokens are only known afterwards,
+  // so a budget with any tokens left admits one more request
+  const needed: Record<QuotaName, number> = {
+    requests: 1,
+    images: Array.isArray(req.files) ? req.files.length : 0,
+    tokens: 1,
+  };
+
+  let counters: QuotaCounter[];
+  let exceeded: QuotaCounter | undefined;
+  const reservations: Reservation[] = [];
+  try {
+    counters = await Promise.all((Object.keys(windows) as QuotaName[]).map((name) => counterOf(user, name)));
+    exceeded = counters.find(({ usage }) => usage.limit > 0 && usage.remaining < needed[usage.name]);
+
+    for (const { usage, key, resetAt } of counters) {
+      if (usage.name !== "tokens" && usage.limit > 0 && needed[usage.name] > 0) {
+        reservations.push({ key, amount: needed[usage.name], limit: usage.limit, expiresAt: resetAt });
+      }
+    }
+    // Another request may have taken what was left since the counters were read
+    const over = exceeded || !reservations.length ? undefined : await getStore().reserve(reservations);
+    if (over) {
+      const { usage } = counters.find((counter) => counter.key === over)!;
+      exceeded = await counterOf(user, usage.name);
+    }
+  } catch (error) {
+    // Quota bookkeeping never blocks extraction
+    console.warn("Quota store error:", error);
+    return next();
+  }
+  const now = Date.now();
+
+  const [requests] = counters;
+  if (requests.usage.limit > 0) {
+    res.set("RateLimit-Policy", `${requests.usage.limit};w=60`);
+    res.set("RateLimit-Limit", String(requests.usage.limit));
+    res.set("RateLimit-Remaining", String(Math.max(0, requests.usage.remaining - (exceeded ? 0 : 1))));
+    res.set("RateLimit-Reset", String(Math.ceil((requests.resetAt - now) / 1000)));
+  }
+
+  if (exceeded) {
+    res.set("Retry-After", String(Math.ceil((exceeded.resetAt - now) / 1000)));
+    return res.status(429).json({ message: limitMessages[exceeded.usage.name](exceeded.usage), quota: exceeded.usage });
+  }
+
+  res.once("finish", () => {
+    if (res.statusCode < 400) return;
+    releaseReservations(reservations).catch((error) => console.warn("Quota store error:", error));
+  });
+  return next();
+}
+
+// Gives back what a failed request reserved, unless its window has passed
+async function releaseReservations(reservations: Reservation[]) {
+  for (const { key, amount, expiresAt } of reservations) {
+    if (expiresAt > Date.now()) await getStore().add(key, -amount, expiresAt);
+  }
+}
+
+// Charges the provider tokens a file used to the user's monthly budget, even
+// when it failed
+export async function recordTokens(user: string, result: FileResult): Promise<void> {
+  if (!result.usage || limitOf("tokens") <= 0) return;
+  const tokens = result.usage.promptTokens + result.usage.completionTokens;
+  if (tokens === 0) return;
+
+  try {
+    const { key, resetAt } = await counterOf(user, "tokens");
+    await getStore().add(key, tokens, resetAt);
+  } catch (error) {
+    console.warn("Quota store error:", error);
+  }
+}
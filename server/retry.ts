@@ -0,0 +1,33 @@
+import { ProviderError, RateLimitError } from "./errors.js";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+// Retries retryable provider errors with exponential backoff and full jitter.
+// A rate limit's Retry-After is honoured as the minimum wait; if it is longer
+// than maxDelayMs the error is surfaced instead so the client can decide.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries, baseDelayMs = 500, maxDelayMs = 30_000, signal }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted) throw error;
+      if (!(error instanceof ProviderError) || !error.retryable) throw error;
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const retryAfter = error instanceof RateLimitError && error.retryAfter ? error.retryAfter * 1000 : 0;
+      if (retryAfter > maxDelayMs) throw error;
+
+      const delay = Math.max(backoff, retryAfter);
+      console.warn(`${error.message}; retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${retries})`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -1,6 +1,45 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import multer from "multer";
-import { analyzeImage } from "./openai.js";
+import {
+  batchConcurrency,
+  defaultProviderName,
+  prepareImage,
+  processFile,
+  providerNames,
+} from "./extraction.js";
+import { mapInOrder } from "./pool.js";
+import { createJob, getJob, cancelJob } from "./jobs.js";
+import {
+  templateInputSchema,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from "./templates.js";
+import {
+  customPatternInputSchema,
+  listCustomPatterns,
+  createCustomPattern,
+  updateCustomPattern,
+  deleteCustomPattern,
+  DuplicatePatternError,
+} from "./custom-patterns.js";
+import { requireAuth } from "./auth.js";
+import {
+  getExtraction,
+  historyQuerySchema,
+  listHistory,
+  saveExtraction,
+  setExtractionTags,
+  tagsInputSchema,
+} from "./history.js";
+import { enforceQuota, quotaStatus, recordTokens } from "./quota.js";
+import { recordUsage, requestUsage, usageReport } from "./usage.js";
+import { errorStatus } from "./errors.js";
+import { UnreadableFileError } from "./formats.js";
+import { parsePreprocessSteps, preprocessSteps, type PreprocessStep } from "./preprocess.js";
+import type { CustomPattern, ExtractionTemplate, ExtractOptions, FileResult, UploadedImage } from "./types.js";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -9,33 +48,419 @@ const upload = multer({
   },
 });
 
+const HEARTBEAT_MS = 15_000;
+
+const unknownStepMessage = `Unknown preprocessing step, expected any of: ${preprocessSteps.join(", ")}`;
+
 export function registerRoutes(app: Express) {
-  app.post("/api/extract", upload.array("images", 10), async (req, res) => {
-    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
-      return res.status(400).json({ message: "No image files provided" });
+  app.use("/api", requireAuth);
+
+  app.get("/api/templates", async (req, res) => {
+    try {
+      return res.json({ templates: await listTemplates(workspaceOf(req)) });
+    } catch (error) {
+      console.error("Error loading templates:", error);
+      return res.status(500).json({ message: "Failed to load templates" });
     }
+  });
 
+  app.get("/api/templates/:id", async (req, res) => {
     try {
-      const requirements = req.body.requirements;
-      const results = [];
-      
-      for (const file of req.files) {
-        const base64Image = file.buffer.toString("base64");
-        const extractedData = await analyzeImage(base64Image, requirements);
-        
-        results.push({
-          text: extractedData.text,
-          patterns: extractedData.patterns,
-          filename: file.originalname,
-        });
+      const template = await getTemplate(workspaceOf(req), req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
       }
+      return res.json({ template });
+    } catch (error) {
+      console.error("Error loading template:", error);
+      return res.status(500).json({ message: "Failed to load template" });
+    }
+  });
 
-      return res.json({ results });
+  app.post("/api/templates", async (req, res) => {
+    const parsed = templateInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      return res.status(201).json({ template: await createTemplate(workspaceOf(req), parsed.data) });
+    } catch (error) {
+      console.error("Error saving template:", error);
+      return res.status(500).json({ message: "Failed to save template" });
+    }
+  });
+
+  app.put("/api/templates/:id", async (req, res) => {
+    const parsed = templateInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      const template = await updateTemplate(workspaceOf(req), req.params.id, parsed.data);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      return res.json({ template });
     } catch (error) {
-      console.error("Error extracting text:", error);
-      return res
-        .status(500)
-        .json({ message: "Failed to extract text from images" });
+      console.error("Error saving template:", error);
+      return res.status(500).json({ message: "Failed to save template" });
     }
   });
+
+  app.delete("/api/templates/:id", async (req, res) => {
+    try {
+      if (!(await deleteTemplate(workspaceOf(req), req.params.id))) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      return res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      return res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
+
+  app.get("/api/patterns", async (req, res) => {
+    try {
+      return res.json({ patterns: await listCustomPatterns(workspaceOf(req)) });
+    } catch (error) {
+      console.error("Error loading patterns:", error);
+      return res.status(500).json({ message: "Failed to load patterns" });
+    }
+  });
+
+  app.post("/api/patterns", async (req, res) => {
+    const parsed = customPatternInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      return res.status(201).json({ pattern: await createCustomPattern(workspaceOf(req), parsed.data) });
+    } catch (error) {
+      if (error instanceof DuplicatePatternError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error saving pattern:", error);
+      return res.status(500).json({ message: "Failed to save pattern" });
+    }
+  });
+
+  app.put("/api/patterns/:id", async (req, res) => {
+    const parsed = customPatternInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      const pattern = await updateCustomPattern(workspaceOf(req), req.params.id, parsed.data);
+      if (!pattern) {
+        return res.status(404).json({ message: "Pattern not found" });
+      }
+      return res.json({ pattern });
+    } catch (error) {
+      if (error instanceof DuplicatePatternError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error saving pattern:", error);
+      return res.status(500).json({ message: "Failed to save pattern" });
+    }
+  });
+
+  app.delete("/api/patterns/:id", async (req, res) => {
+    try {
+      if (!(await deleteCustomPattern(workspaceOf(req), req.params.id))) {
+        return res.status(404).json({ message: "Pattern not found" });
+      }
+      return res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting pattern:", error);
+      return res.status(500).json({ message: "Failed to delete pattern" });
+    }
+  });
+
+  app.get("/api/quota", async (req, res) => {
+    try {
+      return res.json({ quotas: await quotaStatus(req.user!.id) });
+    } catch (error) {
+      console.error("Error loading quotas:", error);
+      return res.status(500).json({ message: "Failed to load quotas" });
+    }
+  });
+
+  // Daily usage for the last `days` days (default 30, at most 365)
+  app.get("/api/usage", async (req, res) => {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return res.status(400).json({ message: "days must be a whole number from 1 to 365" });
+    }
+    try {
+      return res.json(await usageReport(req.user!.id, days));
+    } catch (error) {
+      console.error("Error loading usage:", error);
+      return res.status(500).json({ message: "Failed to load usage" });
+    }
+  });
+
+  app.get("/api/providers", (_req, res) => {
+    return res.json({ providers: providerNames(), default: defaultProviderName() });
+  });
+
+  // Returns an image as it would be sent to the provider, for previewing the
+  // preprocessing. Applied steps are listed in X-Preprocessing-Steps.
+  app.post("/api/preprocess", upload.single("image"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No image file provided" });
+    }
+    const steps = parsePreprocessField(req.body.preprocess);
+    if (steps === null) {
+      return res.status(400).json({ message: unknownStepMessage });
+    }
+
+    try {
+      const image = await prepareImage(req.file, steps);
+      res.set("Content-Type", image.mediaType);
+      res.set("X-Preprocessing-Steps", image.steps.join(","));
+      return res.send(image.buffer);
+    } catch (error) {
+      if (error instanceof UnreadableFileError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error preprocessing image:", error);
+      return res.status(500).json({ message: "Failed to preprocess image" });
+    }
+  });
+
+  app.post("/api/extract", upload.array("images", 10), enforceQuota, async (req, res) => {
+    const parsed = await parseExtractionRequest(req);
+    if ("message" in parsed) {
+      return res.status(parsed.status ?? 400).json({ message: parsed.message });
+    }
+
+    const results = await mapInOrder(parsed.files, batchConcurrency(parsed.options.provider), async (file) => {
+      const result = await processFile(file, parsed.options);
+      await trackResult(req.user!.id, result);
+      return result;
+    });
+
+    const { status, message, retryAfter } = batchOutcome(results);
+    if (retryAfter) {
+      res.set("Retry-After", String(Math.ceil(retryAfter)));
+    }
+    const usage = requestUsage(results);
+    const uploads = parsed.files.map((image, index) => ({ image, result: results[index] }));
+    const extractionId = await saveExtraction(req.user!, workspaceOf(req), parsed.options, uploads);
+    return res.status(status).json(message ? { message, results, usage, extractionId } : { results, usage, extractionId });
+  });
+
+  // Same as /api/extract, but streams Server-Sent Events as each file finishes:
+  // "result" for extracted files, "error" for failed or skipped ones, "progress"
+  // after each file and "done" at the end.
+  app.post("/api/extract/stream", upload.array("images", 10), enforceQuota, async (req, res) => {
+    const parsed = await parseExtractionRequest(req);
+    if ("message" in parsed) {
+      return res.status(parsed.status ?? 400).json({ message: parsed.message });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    // A comment every so often keeps proxies from closing the connection
+    // while a slow file is silent for minutes
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+    // Stop calling the provider once the client goes away
+    const controller = new AbortController();
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const { files, options } = parsed;
+    const total = files.length;
+    let processed = 0;
+    let failed = 0;
+    let skipped = 0;
+    const results: FileResult[] = [];
+    sendEvent(res, "progress", { processed, total });
+
+    await mapInOrder(files, batchConcurrency(options.provider), async (file, index) => {
+      if (controller.signal.aborted) return;
+
+      const result = await processFile(file, { ...options, signal: controller.signal });
+      await trackResult(req.user!.id, result);
+      results[index] = result;
+      if (controller.signal.aborted) return;
+
+      if (result.status === "ok") {
+        sendEvent(res, "result", { index, result });
+      } else {
+        if (result.status === "failed") failed++;
+        else skipped++;
+        sendEvent(res, "error", { index, ...result });
+      }
+
+      processed++;
+      sendEvent(res, "progress", { processed, total, filename: file.originalname });
+    });
+
+    // Files finished before the client went away are kept in history too
+    const finished = files.flatMap((image, index) => (results[index] ? [{ image, result: results[index] }] : []));
+    const extractionId = await saveExtraction(req.user!, workspaceOf(req), options, finished);
+    clearInterval(heartbeat);
+    if (controller.signal.aborted) return;
+    const usage = requestUsage(finished.map((upload) => upload.result));
+    sendEvent(res, "done", { processed, total, failed, skipped, usage, extractionId });
+    res.end();
+  });
+
+  app.post("/api/jobs", upload.array("images", 10), enforceQuota, async (req, res) => {
+    const parsed = await parseExtractionRequest(req);
+    if ("message" in parsed) {
+      return res.status(parsed.status ?? 400).json({ message: parsed.message });
+    }
+
+    const job = createJob(req.user!, workspaceOf(req), parsed.files, parsed.options);
+    return res.status(202).location(`/api/jobs/${job.id}`).json({ job });
+  });
+
+  // The user's extracted files, a page at a time: ?page=1&pageSize=20&sort=date|filename|type&order=desc|asc
+  app.get("/api/extractions", async (req, res) => {
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      const { entries, total } = await listHistory(req.user!.id, workspaceOf(req), parsed.data);
+      return res.json({ entries, total, page: parsed.data.page, pageSize: parsed.data.pageSize });
+    } catch (error) {
+      console.error("Error listing extractions:", error);
+      return res.status(500).json({ message: "Failed to load history" });
+    }
+  });
+
+  app.get("/api/extractions/:id", async (req, res) => {
+    try {
+      const extraction = await getExtraction(req.user!.id, workspaceOf(req), req.params.id);
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      return res.json({ extraction });
+    } catch (error) {
+      console.error("Error loading extraction:", error);
+      return res.status(500).json({ message: "Failed to load extraction" });
+    }
+  });
+
+  // Replaces the extraction's tags with { tags: string[] }
+  app.put("/api/extractions/:id/tags", async (req, res) => {
+    const parsed = tagsInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0].message });
+    }
+    try {
+      const tags = await setExtractionTags(req.user!.id, workspaceOf(req), req.params.id, parsed.data.tags);
+      if (!tags) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      return res.json({ tags });
+    } catch (error) {
+      console.error("Error saving tags:", error);
+      return res.status(500).json({ message: "Failed to save tags" });
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = getJob(req.user!.id, req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    return res.json({ job });
+  });
+
+  app.delete("/api/jobs/:id", (req, res) => {
+    const job = cancelJob(req.user!.id, req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    return res.json({ job });
+  });
+}
+
+// Charges a finished file to the user's token budget and usage ledger
+async function trackResult(user: string, result: FileResult) {
+  await Promise.all([recordTokens(user, result), recordUsage(user, result)]);
+}
+
+// 200 when every file was extracted and 207 for mixed outcomes. When nothing
+// was extracted: 422 if every file was skipped, the error's own status if all
+// failures share one code (e.g. 429 when rate limited), and 500 otherwise.
+function batchOutcome(results: FileResult[]): { status: number; message?: string; retryAfter?: number } {
+  const ok = results.filter((result) => result.status === "ok").length;
+  if (ok === results.length) return { status: 200 };
+  if (ok > 0) return { status: 207 };
+
+  const errors = results.flatMap((result) => (result.status === "failed" ? [result.error] : []));
+  if (errors.length === 0) {
+    return { status: 422, message: "None of the files could be processed" };
+  }
+  if (errors.every((error) => error.code === errors[0].code)) {
+    return {
+      status: errorStatus[errors[0].code] ?? 500,
+      message: errors[0].message,
+      retryAfter: Math.max(0, ...errors.map((error) => error.retryAfter ?? 0)) || undefined,
+    };
+  }
+  return { status: 500, message: "Failed to extract text from images" };
+}
+
+// Validates the multipart body shared by the extraction routes. Failing to
+// load the workspace's template or patterns is a 500, anything else a 400.
+async function parseExtractionRequest(req: Request): Promise<
+  { files: UploadedImage[]; options: ExtractOptions } | { message: string; status?: number }
+> {
+  if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+    return { message: "No image files provided" };
+  }
+
+  let template: ExtractionTemplate | undefined;
+  let customPatterns: CustomPattern[];
+  try {
+    template = req.body.templateId ? await getTemplate(workspaceOf(req), req.body.templateId) : undefined;
+    customPatterns = await listCustomPatterns(workspaceOf(req));
+  } catch (error) {
+    console.error("Error loading templates and patterns:", error);
+    return { status: 500, message: "Failed to load the workspace's templates and patterns" };
+  }
+  if (req.body.templateId && !template) {
+    return { message: "Template not found" };
+  }
+
+  const provider = req.body.provider || undefined;
+  if (provider && !providerNames().includes(provider)) {
+    return { message: `Unknown provider, expected one of: ${providerNames().join(", ")}` };
+  }
+
+  const preprocess = parsePreprocessField(req.body.preprocess);
+  if (preprocess === null) {
+    return { message: unknownStepMessage };
+  }
+
+  const options: ExtractOptions = { requirements: req.body.requirements, template, provider, preprocess, customPatterns };
+  return { files: req.files, options };
+}
+
+// Custom patterns are kept per workspace, set by requireAuth
+function workspaceOf(req: Request): string {
+  return req.workspace!;
+}
+
+// undefined when the field is absent (use the defaults), null when invalid
+function parsePreprocessField(value: unknown): PreprocessStep[] | undefined | null {
+  if (typeof value !== "string") return undefined;
+  return parsePreprocessSteps(value) ?? null;
+}
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
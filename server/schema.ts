@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { toPatterns } from "./patterns.js";
+import type { ExtractedCell, ExtractedData, ExtractionTemplate, FieldValue, TemplateFieldType } from "./types.js";
+
+const cellSchema = z.object({
+  text: z.string(),
+  rowSpan: z.number().int().describe("Number of rows the cell covers, 1 unless merged"),
+  colSpan: z.number().int().describe("Number of columns the cell covers, 1 unless merged"),
+});
+
+// JSON document providers are asked to return. Every field is required so the
+// schema can be used with OpenAI's strict structured outputs; empty arrays mean
+// "nothing found".
+export const extractionSchema = z.object({
+  text: z.string(),
+  patterns: z.object({
+    dates: z.array(z.string()),
+    amounts: z.array(z.string()),
+    emails: z.array(z.string()),
+    phoneNumbers: z.array(z.string()),
+    addresses: z.array(z.string()),
+    identifiers: z.array(z.string()),
+    ibans: z.array(z.string()),
+    vatIds: z.array(z.string()),
+  }),
+  blocks: z.array(
+    z.object({
+      type: z.enum(["heading", "paragraph", "list", "table", "key_value", "other"]),
+      text: z.string(),
+    })
+  ),
+  tables: z.array(
+    z.object({
+      headers: z.array(z.array(cellSchema)),
+      rows: z.array(z.array(cellSchema)),
+    })
+  ),
+});
+
+export type ExtractionDocument = z.infer<typeof extractionSchema> & {
+  fields?: Record<string, FieldValue>;
+};
+
+const fieldSchemas: Record<TemplateFieldType, z.ZodTypeAny> = {
+  string: z.string(),
+  number: z.number(),
+  date: z.string().describe("ISO-8601 date (YYYY-MM-DD)"),
+  money: z.object({ amount: z.number(), currency: z.string().describe("ISO-4217 currency code") }),
+  boolean: z.boolean(),
+  table: z.object({ headers: z.array(z.string()), rows: z.array(z.array(z.string())) }),
+};
+
+// Adds a "fields" object with one nullable entry per template field, so a
+// missing value comes back as null instead of being invented.
+export function buildExtractionSchema(template?: ExtractionTemplate): z.ZodType<ExtractionDocument> {
+  if (!template) {
+    return extractionSchema;
+  }
+
+  const fields = Object.fromEntries(
+    template.fields.map((field) => {
+      const schema = fieldSchemas[field.type].nullable();
+      return [field.name, field.description ? schema.describe(field.description) : schema];
+    })
+  );
+  return extractionSchema.extend({ fields: z.object(fields) });
+}
+
+export function toExtractedData(document: ExtractionDocument): ExtractedData {
+  return {
+    text: document.text.trim(),
+    patterns: toPatterns(document.patterns),
+    blocks: document.blocks.filter((block) => block.text.trim()),
+    fields: document.fields,
+    tables: document.tables
+      .map((table) => ({ headers: table.headers.map(toRow), rows: table.rows.map(toRow) }))
+      .filter((table) => table.rows.length > 0),
+  };
+}
+
+// Spans of 1 are left out, as they are the default
+function toRow(cells: z.infer<typeof cellSchema>[]): ExtractedCell[] {
+  return cells.map(({ text, rowSpan, colSpan }) => ({
+    text: text.trim(),
+    ...(rowSpan > 1 && { rowSpan }),
+    ...(colSpan > 1 && { colSpan }),
+  }));
+}
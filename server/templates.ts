@@ -0,0 +1,82 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { createJsonStore } from "./json-store.js";
+import type { ExtractionTemplate } from "./types.js";
+
+export const templateInputSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  fields: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .regex(/^[A-Za-z][A-Za-z0-9_]*$/, "Field names must start with a letter and contain only letters, digits and underscores"),
+        type: z.enum(["string", "number", "date", "money", "boolean", "table"]),
+        description: z.string().trim().max(200).optional(),
+      })
+    )
+    .min(1, "At least one field is required")
+    .max(50)
+    .refine(
+      (fields) => new Set(fields.map((field) => field.name)).size === fields.length,
+      "Field names must be unique"
+    ),
+});
+
+export type TemplateInput = z.infer<typeof templateInputSchema>;
+
+// Templates saved before they belonged to a workspace are given to
+// TEMPLATES_WORKSPACE, the "default" workspace of AUTH=off unless set
+const store = createJsonStore<ExtractionTemplate[]>(
+  path.resolve(process.env.DATA_DIR || "data", "templates.json"),
+  () => [],
+  {
+    pretty: true,
+    upgrade: (all) =>
+      all.map((template) => ({ ...template, workspace: template.workspace ?? (process.env.TEMPLATES_WORKSPACE || "default") })),
+  }
+);
+
+// Templates belong to a workspace; one workspace never sees or changes
+// another's
+export async function listTemplates(workspace: string): Promise<ExtractionTemplate[]> {
+  return (await store.read()).filter((template) => template.workspace === workspace);
+}
+
+export async function getTemplate(workspace: string, id: string): Promise<ExtractionTemplate | undefined> {
+  return (await store.read()).find((template) => template.id === id && template.workspace === workspace);
+}
+
+export async function createTemplate(workspace: string, input: TemplateInput): Promise<ExtractionTemplate> {
+  const now = new Date().toISOString();
+  const template: ExtractionTemplate = { id: randomUUID(), workspace, ...input, createdAt: now, updatedAt: now };
+  await store.update((all) => all.push(template));
+  return template;
+}
+
+export async function updateTemplate(
+  workspace: string,
+  id: string,
+  input: TemplateInput
+): Promise<ExtractionTemplate | undefined> {
+  return store.update((all) => {
+    const index = all.findIndex((template) => template.id === id && template.workspace === workspace);
+    if (index === -1) return undefined;
+
+    const { name, description, fields } = input;
+    all[index] = { ...all[index], name, description, fields, updatedAt: new Date().toISOString() };
+    return all[index];
+  });
+}
+
+export async function deleteTemplate(workspace: string, id: string): Promise<boolean> {
+  return store.update((all) => {
+    const index = all.findIndex((template) => template.id === id && template.workspace === workspace);
+    if (index === -1) return false;
+
+    all.splice(index, 1);
+    return true;
+  });
+}
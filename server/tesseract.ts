@@ -0,0 +1,93 @@
+import Tesseract from "tesseract.js";
+import sharp from "sharp";
+import engData from "@tesseract.js-data/eng";
+import { findPatterns } from "./patterns.js";
+import { fillTemplate, tablesFromLines, toBlocks } from "./heuristics.js";
+import { toBoundingBox } from "./geometry.js";
+import { ProviderUnavailableError } from "./errors.js";
+import type { ExtractionProvider, TextLine } from "./types.js";
+
+const lang = () => process.env.TESSERACT_LANG || "eng";
+const workerCount = () => parseInt(process.env.TESSERACT_WORKERS || "1", 10);
+
+// Local OCR with Tesseract compiled to WebAssembly. Images never leave the
+// server, so this is the provider to use for documents that must stay on our
+// network. English language data ships with the server; for other languages
+// set TESSERACT_LANG (e.g. "eng+deu") and point TESSERACT_LANG_PATH at a
+// directory holding their .traineddata.gz files.
+export function createTesseractProvider(): ExtractionProvider {
+  return {
+    name: "tesseract",
+    // OCR is CPU bound, so one call per worker
+    limits: { concurrency: workerCount() },
+    fingerprint({ template }) {
+      return `tesseract\n${lang()}\n${JSON.stringify(template?.fields ?? null)}`;
+    },
+    async analyze(base64Image, mediaType, { template, signal }) {
+      signal?.throwIfAborted();
+
+      const { text, lines } = await recognize(Buffer.from(base64Image, "base64"), mediaType);
+      const blocks = toBlocks(text);
+
+      return {
+        text,
+        patterns: findPatterns(text),
+        blocks,
+        fields: template && fillTemplate(template, text, blocks),
+        tables: tablesFromLines(lines),
+        lines,
+      };
+    },
+  };
+}
+
+// Text with line and word boxes. Also used to locate text on the image for
+// providers that only return the text itself.
+export async function recognize(image: Buffer, mediaType: string): Promise<{ text: string; lines: TextLine[] }> {
+  // Leptonica in the WebAssembly build reads PNG and JPEG reliably
+  if (mediaType !== "image/png" && mediaType !== "image/jpeg") {
+    image = await sharp(image).png().toBuffer();
+  }
+  const { width = 1, height = 1 } = await sharp(image).metadata();
+
+  const { data } = await (await getScheduler()).addJob("recognize", image, {}, { text: true, blocks: true });
+  const lines = (data.blocks ?? [])
+    .flatMap((block) => block.paragraphs)
+    .flatMap((paragraph) => paragraph.lines)
+    .map((line) => ({
+      text: line.text.trim(),
+      box: toBoundingBox(line.bbox, width, height),
+      words: line.words.map((word) => ({
+        text: word.text,
+        box: toBoundingBox(word.bbox, width, height),
+        confidence: word.confidence / 100,
+      })),
+    }))
+    .filter((line) => line.text);
+
+  return { text: data.text.trim(), lines };
+}
+
+let scheduler: Promise<Tesseract.Scheduler> | null = null;
+
+function getScheduler() {
+  scheduler ??= startScheduler().catch((error) => {
+    scheduler = null;
+    throw new ProviderUnavailableError(`Local OCR engine failed to start: ${error.message ?? error}`);
+  });
+  return scheduler;
+}
+
+async function startScheduler(): Promise<Tesseract.Scheduler> {
+  const scheduler = Tesseract.createScheduler();
+  for (let i = 0; i < workerCount(); i++) {
+    const worker = await Tesseract.createWorker(lang(), Tesseract.OEM.LSTM_ONLY, {
+      langPath: process.env.TESSERACT_LANG_PATH || engData.langPath,
+      gzip: true,
+      // Language data is read from langPath on every start rather than cached to disk
+      cacheMethod: "none",
+    });
+    scheduler.addWorker(worker);
+  }
+  return scheduler;
+}
@@ -0,0 +1,29 @@
+import sharp from "sharp";
+import { detectFileType, toProviderImage } from "./formats.js";
+import { renderFirstPdfPage } from "./pdf.js";
+import type { UploadedImage } from "./types.js";
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 160;
+
+// A small WebP of an upload, or of a PDF's first page, as a data URL.
+// Undefined for files that can't be read as an image.
+export async function createThumbnail(file: UploadedImage): Promise<string | undefined> {
+  const type = detectFileType(file.buffer);
+  if (!type) return undefined;
+
+  try {
+    const image =
+      type === "application/pdf"
+        ? await renderFirstPdfPage(file.buffer, 36)
+        : (await toProviderImage(file.buffer, type)).buffer;
+    const webp = await sharp(image)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 60 })
+      .toBuffer();
+    return `data:image/webp;base64,${webp.toString("base64")}`;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,88 @@
+import sharp from "sharp";
+
+export interface Tile {
+  top: number;
+  height: number;
+}
+
+// Images taller than TILE_MAX_ASPECT times their width (default 2), or with
+// more than TILE_MAX_PIXELS pixels (default 8 million) once preprocessing has
+// downscaled them to `longestSide`, lose too much detail when the model
+// downscales them. An ordinary photo is downscaled and sent whole.
+// TILING=off disables tiling.
+export function needsTiling(width: number, height: number, longestSide = Infinity): boolean {
+  if (!tilingEnabled()) return false;
+  const maxAspect = parseFloat(process.env.TILE_MAX_ASPECT || "2");
+  const maxPixels = parseInt(process.env.TILE_MAX_PIXELS || "8000000", 10);
+  const scale = Math.min(1, longestSide / Math.max(width, height));
+  return height > width * maxAspect || width * height * scale * scale > maxPixels;
+}
+
+export function tilingEnabled(): boolean {
+  return process.env.TILING !== "off";
+}
+
+// Splits an image into full-width horizontal strips, each overlapping the
+// next by about 10% so no line of text is only ever seen cut in half. Strips
+// are at most as tall as the image is wide, and at most 4 megapixels.
+export function planTiles(width: number, height: number, tileHeight = defaultTileHeight(width)): Tile[] {
+  tileHeight = Math.min(height, Math.max(256, tileHeight));
+  const overlap = Math.round(tileHeight * 0.1);
+  const count = Math.max(1, Math.ceil((height - overlap) / (tileHeight - overlap)));
+  const step = count > 1 ? (height - tileHeight) / (count - 1) : 0;
+
+  return Array.from({ length: count }, (_, index) => ({
+    top: Math.round(index * step),
+    height: tileHeight,
+  }));
+}
+
+function defaultTileHeight(width: number): number {
+  return Math.min(width, Math.floor(4_000_000 / width));
+}
+
+export async function cropTiles(buffer: Buffer, width: number, tiles: Tile[]): Promise<Buffer[]> {
+  return Promise.all(
+    tiles.map((tile) =>
+      sharp(buffer).extract({ left: 0, top: tile.top, width, height: tile.height }).toBuffer()
+    )
+  );
+}
+
+const MAX_OVERLAP_LINES = 30;
+
+// Joins the text of two neighbouring tiles, dropping the lines of `next` that
+// repeat the end of `previous`. A line cut in half at either edge of the
+// overlap reads differently in each tile, so one such line may be skipped on
+// each side. Returns how many lines were matched; 0 means no overlap was found
+// and the texts were simply concatenated.
+export function stitchText(previous: string, next: string): { text: string; matched: number } {
+  const before = previous.split("\n");
+  const after = next.split("\n");
+  const normalize = (line: string) => line.trim().replace(/\s+/g, " ").toLowerCase();
+
+  let best = { matched: 0, dropBefore: 0, dropAfter: 0 };
+  for (const dropBefore of [0, 1]) {
+    for (const dropAfter of [0, 1]) {
+      const end = before.length - dropBefore;
+      const limit = Math.min(end, after.length - dropAfter, MAX_OVERLAP_LINES);
+      for (let count = limit; count > best.matched; count--) {
+        const lines = after.slice(dropAfter, dropAfter + count);
+        const matches = lines.every((line, i) => normalize(line) === normalize(before[end - count + i]));
+        // Blank lines or a single short line such as "Total" are too likely to repeat by chance
+        const significant = lines.map(normalize).filter(Boolean);
+        if (matches && (significant.length > 1 || significant.join("").length >= 8)) {
+          best = { matched: count, dropBefore, dropAfter };
+          break;
+        }
+      }
+    }
+  }
+
+  if (best.matched === 0) {
+    return { text: `${previous}\n${next}`, matched: 0 };
+  }
+  const kept = before.slice(0, before.length - best.dropBefore);
+  const rest = after.slice(best.dropAfter + best.matched);
+  return { text: [...kept, ...rest].join("\n"), matched: best.matched };
+}
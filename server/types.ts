@@ -0,0 +1,266 @@
+import type { RateLimits } from "./pool.js";
+import type { PreprocessStep } from "./preprocess.js";
+
+export type PatternType = "date" | "amount" | "email" | "phone" | "address" | "identifier" | "iban" | "vat_id" | "custom";
+
+export interface Amount {
+  value: number;
+  // ISO-4217 code, null when the document doesn't say
+  currency: string | null;
+}
+
+// A recognized value as written in the document, with a canonical form for
+// sorting, summing and importing. normalized is null when the raw text can't
+// be read as its type.
+export interface PatternValue<T = string | Amount> {
+  raw: string;
+  normalized: T | null;
+  type: PatternType;
+}
+
+export interface Patterns {
+  // ISO-8601 dates
+  dates?: PatternValue<string>[];
+  amounts?: PatternValue<Amount>[];
+  emails?: PatternValue<string>[];
+  // E.164 numbers
+  phoneNumbers?: PatternValue<string>[];
+  addresses?: PatternValue<string>[];
+  identifiers?: PatternValue<string>[];
+  // Electronic format, when the check digits are right
+  ibans?: PatternValue<string>[];
+  // EU and UK VAT numbers, Australian ABNs and Indian GSTINs
+  vatIds?: PatternValue<string>[];
+}
+
+// Check a custom pattern's value must pass: Luhn (card and account numbers),
+// ISO 7064 MOD 97-10 over its letters and digits, or a full IBAN or VAT number
+export type CustomValidator = "luhn" | "mod97" | "iban" | "vat_id";
+
+// Canonical form of a custom pattern's value. "format" rewrites the match
+// with the pattern's replacement, e.g. "PO-$1-$2".
+export type CustomNormalizer = "uppercase" | "lowercase" | "compact" | "digits" | "date" | "amount" | "format";
+
+// A user-defined pattern, recognized in the extracted text of every document
+// extracted in its workspace
+export interface CustomPattern {
+  id: string;
+  // A user's id, or the name of a workspace shared by a team
+  workspace: string;
+  // Unique in its workspace; labels the pattern's section and export columns
+  name: string;
+  description?: string;
+  // Regular expression source. When it has a group named "value", that group
+  // is the value, so labels can be matched without becoming part of it.
+  regex: string;
+  // Any of "i", "m", "s" and "u"; matching is always global
+  flags: string;
+  validator?: CustomValidator;
+  normalizer?: CustomNormalizer;
+  replacement?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LayoutBlockType = "heading" | "paragraph" | "list" | "table" | "key_value" | "other";
+
+export interface LayoutBlock {
+  type: LayoutBlockType;
+  text: string;
+}
+
+export type TemplateFieldType = "string" | "number" | "date" | "money" | "boolean" | "table";
+
+export interface TemplateField {
+  name: string;
+  type: TemplateFieldType;
+  description?: string;
+}
+
+// Kind of document, detected from its text to sort and filter history
+export type DocumentType =
+  | "invoice"
+  | "receipt"
+  | "bank_statement"
+  | "business_card"
+  | "id_document"
+  | "contract"
+  | "letter"
+  | "other";
+
+export interface ExtractionTemplate {
+  id: string;
+  // Workspace the template belongs to, as for custom patterns
+  workspace: string;
+  name: string;
+  description?: string;
+  fields: TemplateField[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export interface TableValue {
+  headers: string[];
+  rows: string[][];
+}
+
+export type FieldValue = string | number | boolean | Money | TableValue | null;
+
+// A table cell. Spans work as in HTML: a merged cell is listed once, in the
+// row and position where it starts, and the cells it covers are left out.
+export interface ExtractedCell {
+  text: string;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+export interface ExtractedTable {
+  // Header rows, usually one; empty when the table has no header
+  headers: ExtractedCell[][];
+  rows: ExtractedCell[][];
+}
+
+// Position in the image as fractions of its width and height, so boxes stay
+// valid at any display size
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WordBox {
+  text: string;
+  box: BoundingBox;
+  // OCR confidence from 0 to 1, when the engine reports one
+  confidence?: number;
+}
+
+export interface TextLine {
+  text: string;
+  box: BoundingBox;
+  words: WordBox[];
+}
+
+// Where one occurrence of a recognized pattern sits in the image
+export interface PatternMatch {
+  pattern: keyof Patterns;
+  // Raw value, as in the document
+  value: string;
+  box: BoundingBox;
+}
+
+// How sure the extraction is about each value, from 0 to 1
+export interface Confidence {
+  // Scores of each kind of pattern, keyed by raw value
+  patterns: { [K in keyof Patterns]?: Record<string, number> };
+  // Scores of the template fields that have a value
+  fields?: Record<string, number>;
+  // Scores of custom pattern values, by pattern name and raw value
+  custom?: Record<string, Record<string, number>>;
+}
+
+// Tokens a provider call used, summed over retries, tiles and pages
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Model the tokens were used by
+  model?: string;
+  // Estimated cost in USD, from the price table; absent for unpriced models
+  cost?: number;
+}
+
+export interface ExtractedData {
+  text: string;
+  patterns: Patterns;
+  blocks?: LayoutBlock[];
+  fields?: Record<string, FieldValue>;
+  tables?: ExtractedTable[];
+  lines?: TextLine[];
+  matches?: PatternMatch[];
+  confidence?: Confidence;
+  // Values of the workspace's custom patterns, by pattern name
+  custom?: Record<string, PatternValue[]>;
+  // Set by providers that bill by the token; cached results used none
+  usage?: TokenUsage;
+}
+
+export interface AnalyzeOptions {
+  requirements?: string;
+  template?: ExtractionTemplate;
+  signal?: AbortSignal;
+}
+
+// Options for extracting one file: what the provider sees plus the choice of
+// provider and the server-side preprocessing steps (defaults from PREPROCESS_STEPS)
+export interface ExtractOptions extends AnalyzeOptions {
+  // Provider to use instead of the default, e.g. "tesseract" to keep the image on this server
+  provider?: string;
+  preprocess?: PreprocessStep[];
+  // Applied to the extracted text after the provider and the cache
+  customPatterns?: CustomPattern[];
+}
+
+export interface UploadedImage {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+// How an image was split into overlapping horizontal strips, either because
+// it is too tall or large to read at once ("size") or because extracting it
+// whole ran out of output tokens ("truncated").
+export interface TilingInfo {
+  reason: "size" | "truncated";
+  tiles: { top: number; height: number }[];
+  // Lines matched and removed at each seam between neighbouring tiles;
+  // 0 means no overlap was found and the texts were joined as they were
+  seams: number[];
+}
+
+// One page of a multi-page document, numbered from 1
+export interface PageResult extends ExtractedData {
+  page: number;
+}
+
+export interface ExtractionResult extends ExtractedData {
+  filename: string;
+  templateId?: string;
+  cache?: "hit" | "miss";
+  // Preprocessing steps applied before the image was analyzed
+  preprocessing?: PreprocessStep[];
+  tiling?: TilingInfo;
+  // Set for PDFs; the top-level text and patterns merge all pages
+  pages?: PageResult[];
+}
+
+export type FileStatus = "ok" | "failed" | "skipped";
+
+export interface FileError {
+  code: string;
+  message: string;
+  // Seconds to wait before retrying, for rate-limited files
+  retryAfter?: number;
+}
+
+// Outcome for one file of a batch. Failed and skipped files carry an error
+// instead of extracted data, so one bad image doesn't cost the whole batch.
+export type FileResult =
+  | (ExtractionResult & { status: "ok" })
+  | { filename: string; status: "failed" | "skipped"; error: FileError; usage?: TokenUsage };
+
+export interface ExtractionProvider {
+  name: string;
+  // Rate budget for calls to this provider, shared by all requests
+  limits?: RateLimits;
+  // Everything besides the image that affects the output (model, prompt, ...),
+  // used to key cached results
+  fingerprint(options: AnalyzeOptions): string;
+  // mediaType is always one of image/png, image/jpeg, image/gif or image/webp
+  analyze(base64Image: string, mediaType: string, options: AnalyzeOptions): Promise<ExtractedData>;
+}
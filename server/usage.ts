@@ -0,0 +1,95 @@
+import path from "path";
+import { createJsonStore } from "./json-store.js";
+import type { FileResult, TokenUsage } from "./types.js";
+
+// One user's extractions on one UTC day
+export interface DailyUsage {
+  // YYYY-MM-DD
+  date: string;
+  // Files extracted, whether or not they used any tokens
+  files: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated USD, for priced models
+  cost: number;
+}
+
+interface LedgerEntry extends DailyUsage {
+  user: string;
+}
+
+// Totals of several calls. The cost covers the priced ones, and is absent
+// when none was priced.
+export function addUsage(usages: TokenUsage[]): TokenUsage {
+  const priced = usages.filter((usage) => usage.cost !== undefined);
+  return {
+    promptTokens: usages.reduce((sum, usage) => sum + usage.promptTokens, 0),
+    completionTokens: usages.reduce((sum, usage) => sum + usage.completionTokens, 0),
+    model: usages.find((usage) => usage.model)?.model,
+    cost: priced.length ? priced.reduce((sum, usage) => sum + usage.cost!, 0) : undefined,
+  };
+}
+
+// Totals for the files of one request or job
+export function requestUsage(results: FileResult[]): TokenUsage | undefined {
+  const usages = results.flatMap((result) => (result.usage ? [result.usage] : []));
+  return usages.length ? addUsage(usages) : undefined;
+}
+
+const store = createJsonStore<LedgerEntry[]>(path.resolve(process.env.DATA_DIR || "data", "usage.json"), () => []);
+
+// Adds a processed file to the user's usage for today: extracted files and
+// the tokens of every file, failed ones included. Bookkeeping errors are
+// logged and never fail the extraction.
+export async function recordUsage(user: string, result: FileResult): Promise<void> {
+  if (result.status !== "ok" && !result.usage) return;
+
+  try {
+    await store.update((all) => {
+      const date = new Date().toISOString().slice(0, 10);
+      let entry = all.find((candidate) => candidate.user === user && candidate.date === date);
+      if (!entry) {
+        entry = { user, date, files: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+        all.push(entry);
+      }
+      if (result.status === "ok") entry.files++;
+      entry.promptTokens += result.usage?.promptTokens ?? 0;
+      entry.completionTokens += result.usage?.completionTokens ?? 0;
+      entry.cost += result.usage?.cost ?? 0;
+    });
+  } catch (error) {
+    console.warn("Usage ledger error:", error);
+  }
+}
+
+// The user's usage for each of the last `days` days, oldest first and
+// including days without any, and the total over them
+export async function usageReport(
+  user: string,
+  days: number
+): Promise<{ days: DailyUsage[]; total: Omit<DailyUsage, "date"> }> {
+  const all = await store.read();
+  const today = new Date();
+  const report: DailyUsage[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - offset))
+      .toISOString()
+      .slice(0, 10);
+    const entry = all.find((candidate) => candidate.user === user && candidate.date === date);
+    report.push({
+      date,
+      files: entry?.files ?? 0,
+      promptTokens: entry?.promptTokens ?? 0,
+      completionTokens: entry?.completionTokens ?? 0,
+      cost: entry?.cost ?? 0,
+    });
+  }
+
+  const total = {
+    files: report.reduce((sum, day) => sum + day.files, 0),
+    promptTokens: report.reduce((sum, day) => sum + day.promptTokens, 0),
+    completionTokens: report.reduce((sum, day) => sum + day.completionTokens, 0),
+    cost: report.reduce((sum, day) => sum + day.cost, 0),
+  };
+  return { days: report, total };
+}